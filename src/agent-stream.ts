@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { ReflexibleClient } from './client';
+import { AgentEvent, AgentEventSchema } from './api-types';
+import { SchemaIssue } from './schema';
+import { SseClient, SseMessage, SseCloseReason, SseReconnectInfo } from './sse-client';
+
+const TERMINAL_EVENTS = new Set(['complete', 'stopped', 'cancelled', 'error']);
+
+/**
+ * Typed view over a session's SSE stream: each message is decoded into an
+ * `AgentEvent`. Payloads that fail to decode are logged to the Output
+ * channel rather than dropped silently.
+ */
+export class AgentEventStream implements vscode.Disposable {
+    private readonly _onEvent = new vscode.EventEmitter<AgentEvent>();
+    readonly onEvent = this._onEvent.event;
+
+    private readonly sse: SseClient;
+    private readonly decoded = new WeakMap<SseMessage, AgentEvent | null>();
+    readonly onReconnecting: vscode.Event<SseReconnectInfo>;
+    readonly onError: vscode.Event<Error>;
+    readonly onClose: vscode.Event<SseCloseReason>;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        readonly sessionId: string,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {
+        const client = ReflexibleClient.for(context);
+        this.sse = new SseClient({
+            open: (lastEventId, signal) => client.openEventStream(sessionId, signal, lastEventId),
+            isTerminal: message => TERMINAL_EVENTS.has(this.decode(message)?.type ?? '')
+        });
+        this.onReconnecting = this.sse.onReconnecting;
+        this.onError = this.sse.onError;
+        this.onClose = this.sse.onClose;
+
+        this.sse.onMessage(message => {
+            const event = this.decode(message);
+            if (event) this._onEvent.fire(event);
+        });
+        this.sse.onReconnecting(info => {
+            this.outputChannel.appendLine(`Session ${sessionId}: stream interrupted (${info.reason}), reconnecting in ${info.delay}ms (attempt ${info.attempt})`);
+        });
+        this.sse.onError(e => {
+            this.outputChannel.appendLine(`Session ${sessionId}: stream error: ${e.message}`);
+        });
+    }
+
+    start(): Promise<SseCloseReason> {
+        return this.sse.start();
+    }
+
+    close(): void {
+        this.sse.close();
+    }
+
+    /** Decodes once per message - `isTerminal` and `onMessage` both look at it. */
+    private decode(message: SseMessage): AgentEvent | undefined {
+        if (this.decoded.has(message)) return this.decoded.get(message) ?? undefined;
+        let event: AgentEvent | null = null;
+        try {
+            const parsed = JSON.parse(message.data);
+            // Servers may name the event in the SSE `event:` field instead of the payload
+            if (parsed && typeof parsed === 'object' && !parsed.type && message.event !== 'message') {
+                parsed.type = message.event;
+            }
+            event = AgentEventSchema.parse(parsed);
+        } catch (e: any) {
+            const reason = e instanceof SchemaIssue ? e.message : 'invalid JSON';
+            this.outputChannel.appendLine(`Session ${this.sessionId}: ignoring malformed event (${reason}): ${message.data.substring(0, 200)}`);
+        }
+        this.decoded.set(message, event);
+        return event ?? undefined;
+    }
+
+    dispose(): void {
+        this.sse.dispose();
+        this._onEvent.dispose();
+    }
+}
@@ -0,0 +1,147 @@
+import * as s from './schema';
+
+export const ProjectSchema = s.object({
+    id: s.string(),
+    name: s.string(),
+    createdAt: s.optional(s.string()),
+    updatedAt: s.optional(s.string())
+});
+export type Project = s.Infer<typeof ProjectSchema>;
+
+export const ProjectFileSchema = s.object({
+    id: s.string(),
+    path: s.string(),
+    size: s.optional(s.number()),
+    updatedAt: s.optional(s.string()),
+    /** Changes whenever the content does; sent back as If-Match on save */
+    etag: s.optional(s.string())
+});
+export type ProjectFile = s.Infer<typeof ProjectFileSchema>;
+
+export const ProjectListSchema = s.object({ projects: s.array(ProjectSchema) });
+export const ProjectResponseSchema = s.object({ project: ProjectSchema });
+export const FileListSchema = s.object({
+    files: s.array(ProjectFileSchema),
+    /** Present when more files follow; pass back as `cursor` */
+    nextCursor: s.optional(s.string())
+});
+export const UploadBatchSchema = s.object({ filesUploaded: s.optional(s.number()) });
+
+const CompileMessageSchema = s.union(s.string(), s.object({
+    message: s.string(),
+    line: s.optional(s.number()),
+    column: s.optional(s.number()),
+    rule: s.optional(s.string()),
+    code: s.optional(s.string()),
+    /** Documentation page for the rule, when the server has one */
+    docsUrl: s.optional(s.string())
+}));
+
+export const CompileResponseSchema = s.object({
+    success: s.boolean(),
+    result: s.optional(s.object({
+        output: s.optional(s.string()),
+        warnings: s.optional(s.array(CompileMessageSchema))
+    })),
+    errors: s.optional(s.array(CompileMessageSchema))
+});
+export type CompileResponse = s.Infer<typeof CompileResponseSchema>;
+
+export const VerifyIssueSchema = s.object({
+    message: s.string(),
+    severity: s.optional(s.string()),
+    line: s.optional(s.number()),
+    column: s.optional(s.number()),
+    endLine: s.optional(s.number()),
+    endColumn: s.optional(s.number()),
+    rule: s.optional(s.string()),
+    check: s.optional(s.string()),
+    /** Documentation page for the rule, when the server has one */
+    docsUrl: s.optional(s.string())
+});
+
+export const VerifyResponseSchema = s.object({
+    success: s.boolean(),
+    result: s.optional(s.object({
+        status: s.optional(s.string()),
+        issues: s.optional(s.array(VerifyIssueSchema)),
+        warnings: s.optional(s.array(s.string()))
+    }))
+});
+export type VerifyResponse = s.Infer<typeof VerifyResponseSchema>;
+
+export type ComputeMode = 'chat' | 'basic' | 'pro';
+
+export const DispatchResponseSchema = s.object({ sessionId: s.string() });
+
+/**
+ * A generated file. The payload is inline `content` (UTF-8 text unless
+ * `encoding` is "base64") or a signed `url`; `size` and `sha256` describe
+ * the decoded bytes when the server supplies them.
+ */
+export const ArtifactSchema = s.object({
+    path: s.string(),
+    content: s.optional(s.string()),
+    encoding: s.optional(s.string()),
+    url: s.optional(s.string()),
+    size: s.optional(s.number()),
+    sha256: s.optional(s.string())
+});
+export type Artifact = s.Infer<typeof ArtifactSchema>;
+export const ArtifactListSchema = s.object({ artifacts: s.optional(s.array(ArtifactSchema)) });
+
+export const ChatMessageSchema = s.object({
+    role: s.string(),
+    content: s.string(),
+    createdAt: s.optional(s.string()),
+    sessionId: s.optional(s.string())
+});
+export type ChatMessage = s.Infer<typeof ChatMessageSchema>;
+export const ChatHistorySchema = s.object({
+    messages: s.optional(s.array(ChatMessageSchema)),
+    hasMore: s.optional(s.boolean()),
+    nextCursor: s.optional(s.string())
+});
+
+export const SessionSummarySchema = s.object({
+    id: s.string(),
+    status: s.optional(s.string()),
+    mode: s.optional(s.string()),
+    title: s.optional(s.string()),
+    createdAt: s.optional(s.string()),
+    updatedAt: s.optional(s.string()),
+    creditsUsed: s.optional(s.number())
+});
+export type SessionSummary = s.Infer<typeof SessionSummarySchema>;
+export const SessionListSchema = s.object({ sessions: s.optional(s.array(SessionSummarySchema)) });
+
+export const ExtConfigSchema = s.object({
+    credits: s.optional(s.object({
+        total: s.number(),
+        promo: s.number()
+    })),
+    computeModes: s.optional(s.record(s.object({
+        creditsPerRun: s.number()
+    })))
+});
+export type ExtConfig = s.Infer<typeof ExtConfigSchema>;
+
+export const TodoItemSchema = s.object({
+    content: s.string(),
+    status: s.string(),
+    id: s.optional(s.string())
+});
+export type TodoItem = s.Infer<typeof TodoItemSchema>;
+
+/**
+ * Payload of an agent session event. Known types are "progress",
+ * "todo_update", "content"/"message", "complete" and "error"; fields are
+ * optional because each type only carries some of them.
+ */
+export const AgentEventSchema = s.object({
+    type: s.string(),
+    message: s.optional(s.string()),
+    content: s.optional(s.string()),
+    todos: s.optional(s.array(TodoItemSchema))
+});
+export type AgentEvent = s.Infer<typeof AgentEventSchema>;
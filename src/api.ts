@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { fetch } from './fetch-polyfill';
 import { Config } from './config';
+import { ReflexibleApiError, AuthError, QuotaError, NotFoundError, ConflictError, ServerError, RateLimitError, NetworkError } from './errors';
+import { ConnectivityMonitor } from './connectivity';
 
 export async function getApiKey(context: vscode.ExtensionContext): Promise<string | undefined> {
     const secret = await context.secrets.get('reflexible.apiKey');
@@ -33,62 +35,172 @@ export async function ensureApiKey(context: vscode.ExtensionContext): Promise<st
     return undefined;
 }
 
-export async function apiFetch(context: vscode.ExtensionContext, path: string, init?: RequestInit): Promise<Response> {
+export interface ApiFetchOptions {
+    /**
+     * Whether the request may be retried after network errors and 5xx
+     * responses. Defaults to true for GET/HEAD/PUT/DELETE/OPTIONS. 429s are
+     * always retried since the server did not process the request.
+     */
+    idempotent?: boolean;
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+/** Statuses that mean the service itself is unavailable, not that the request was bad */
+const UNAVAILABLE_STATUSES = new Set([502, 503, 504]);
+const MAX_RETRY_DELAY = 30000;
+const MAX_RETRY_AFTER = 60000;
+
+/**
+ * Authenticated request against the Reflexible API. Never shows UI for
+ * failures: non-2xx responses are thrown as typed errors (see errors.ts) for
+ * the caller to handle. Transient failures are retried with exponential
+ * backoff and jitter, honouring `Retry-After`.
+ */
+export async function apiFetch(
+    context: vscode.ExtensionContext,
+    path: string,
+    init?: RequestInit,
+    options: ApiFetchOptions = {}
+): Promise<Response> {
     const apiKey = await ensureApiKey(context);
-    if (!apiKey) throw new Error('Not authenticated');
+    if (!apiKey) throw new AuthError('Not authenticated', 401, path);
     
     const url = `${Config.baseUrl}${path}`;
-    const res = await fetch(url, {
-        ...(init || {}),
-        headers: {
-            'x-api-key': apiKey,
-            'content-type': 'application/json',
-            ...(init?.headers || {}),
-        },
-    });
+    const method = (init?.method || 'GET').toUpperCase();
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const maxRetries = Config.maxRetries;
+    const connectivity = ConnectivityMonitor.get();
     
-    // Handle errors with detailed logging
-    if (!res.ok) {
+    for (let attempt = 0; ; attempt++) {
+        let res: Response;
+        try {
+            res = await fetch(url, {
+                ...(init || {}),
+                headers: {
+                    'x-api-key': apiKey,
+                    'content-type': 'application/json',
+                    ...(init?.headers || {}),
+                },
+            });
+        } catch (e: any) {
+            if (e?.name === 'AbortError') throw e;
+            if (idempotent && attempt < maxRetries) {
+                await sleep(backoffDelay(attempt), init?.signal);
+                continue;
+            }
+            connectivity.reportFailure();
+            throw new NetworkError(path, e);
+        }
+        if (!UNAVAILABLE_STATUSES.has(res.status)) {
+            connectivity.reportSuccess();
+        }
+        
+        // 304 only comes back for conditional requests, which handle it themselves
+        if (res.ok || res.status === 304) return res;
+        
+        const retryable = res.status === 429 || (idempotent && RETRYABLE_STATUSES.has(res.status));
+        if (retryable && attempt < maxRetries) {
+            const retryAfter = parseRetryAfter(res.headers.get('retry-after'));
+            await res.text().catch(() => '');
+            await sleep(retryAfter ?? backoffDelay(attempt), init?.signal);
+            continue;
+        }
+        
+        if (UNAVAILABLE_STATUSES.has(res.status)) {
+            connectivity.reportFailure();
+        }
+        
         const text = await res.text().catch(() => '');
-        const errorDetails = `API Error [${res.status}]:\nEndpoint: ${path}\nResponse: ${text}`;
+        const error = toApiError(res.status, path, text, parseRetryAfter(res.headers.get('retry-after')));
+        console.error('[Reflexible API]', error.details);
         
-        if (res.status === 401 || res.status === 403) {
-            // Log detailed 403/401 error
-            console.error('[Reflexible API]', errorDetails);
-            
-            if (text.toLowerCase().includes('expired') || 
-                text.toLowerCase().includes('invalid') || 
-                text.toLowerCase().includes('unauthorized') ||
-                text.toLowerCase().includes('access denied')) {
-                // Clear the stored API key
+        if (error instanceof AuthError) {
+            const lower = text.toLowerCase();
+            if (lower.includes('expired') || 
+                lower.includes('invalid') || 
+                lower.includes('unauthorized') ||
+                lower.includes('access denied')) {
+                // Clear the stored API key so the next request prompts for a new one
                 await context.secrets.delete('reflexible.apiKey');
-                vscode.window.showErrorMessage(
-                    `Authentication failed (${res.status}): ${text.substring(0, 100)}`,
-                    'Authenticate Now',
-                    'Details'
-                ).then(selection => {
-                    if (selection === 'Authenticate Now') {
-                        vscode.commands.executeCommand('reflexible.authenticate');
-                    } else if (selection === 'Details') {
-                        vscode.window.showErrorMessage(errorDetails);
-                    }
-                });
-                throw new Error(`Authentication failed (${res.status}): ${text}`);
             }
         }
-        
-        // Show detailed error for all other errors
-        vscode.window.showErrorMessage(
-            `Reflexible API Error (${res.status}): ${text.substring(0, 200)}`,
-            'View Details'
-        ).then(selection => {
-            if (selection === 'View Details') {
-                vscode.window.showErrorMessage(errorDetails);
-            }
-        });
-        
-        throw new Error(`${res.status} ${text}`);
+        throw error;
+    }
+}
+
+/** Full jitter: a random delay up to the exponential cap. */
+function backoffDelay(attempt: number): number {
+    const cap = Math.min(MAX_RETRY_DELAY, Config.retryBaseDelay * 2 ** attempt);
+    return Math.round(Math.random() * cap);
+}
+
+/** `Retry-After` is either delta-seconds or an HTTP date. */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    if (!Number.isFinite(ms)) return undefined;
+    return Math.min(Math.max(0, ms), MAX_RETRY_AFTER);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function abortError(): Error {
+    const error = new Error('Request aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+function toApiError(status: number, path: string, text: string, retryAfterMs?: number): ReflexibleApiError {
+    const message = extractMessage(text) || `Request failed with status ${status}`;
+    const lower = text.toLowerCase();
+    if (status === 402 || (status === 403 && (lower.includes('insufficient credits') || lower.includes('quota')))) {
+        return new QuotaError(message, status, path, text);
+    }
+    if (status === 401 || status === 403) {
+        return new AuthError(`Authentication failed (${status}): ${message}`, status, path, text);
+    }
+    if (status === 429) {
+        return new RateLimitError(`Rate limited: ${message}`, status, path, text, retryAfterMs);
+    }
+    if (status === 404) {
+        return new NotFoundError(message, status, path, text);
     }
-    return res;
+    if (status === 409 || status === 412) {
+        return new ConflictError(`Conflict (${status}): ${message}`, status, path, text);
+    }
+    if (status >= 500) {
+        return new ServerError(`Server error (${status}): ${message}`, status, path, text);
+    }
+    return new ReflexibleApiError(`${status} ${message}`, status, path, text);
 }
 
+/** Prefers the `error`/`message` field of JSON error bodies over the raw text. */
+function extractMessage(text: string): string {
+    try {
+        const body = JSON.parse(text);
+        if (typeof body?.error === 'string') return body.error;
+        if (typeof body?.message === 'string') return body.message;
+        if (typeof body?.error?.message === 'string') return body.error.message;
+    } catch {
+        // Not JSON
+    }
+    return text.substring(0, 500);
+}
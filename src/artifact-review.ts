@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { Artifact } from './api-types';
+
+const INCOMING_SCHEME = 'reflexible-artifact';
+const incomingContent = new Map<string, string>();
+
+export type ArtifactStatus = 'new' | 'changed' | 'unchanged';
+
+export interface IncomingArtifact {
+    artifact: Artifact;
+    /** Verified bytes to write */
+    data: Uint8Array;
+    /** Where the artifact would be written */
+    target: vscode.Uri;
+    status: ArtifactStatus;
+    binary: boolean;
+}
+
+interface ArtifactPickItem extends vscode.QuickPickItem {
+    incoming: IncomingArtifact;
+}
+
+const STATUS_ICONS: Record<ArtifactStatus, string> = {
+    new: '$(diff-added)',
+    changed: '$(diff-modified)',
+    unchanged: '$(check)'
+};
+
+class IncomingArtifactProvider implements vscode.TextDocumentContentProvider {
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return incomingContent.get(uri.toString()) ?? '';
+    }
+}
+
+/** Compares downloaded artifacts with the files they would overwrite. */
+export async function classifyArtifacts(
+    downloads: { artifact: Artifact, data: Uint8Array }[],
+    targetFor: (artifact: Artifact) => vscode.Uri
+): Promise<IncomingArtifact[]> {
+    return Promise.all(downloads.map(async ({ artifact, data }) => {
+        const target = targetFor(artifact);
+        let status: ArtifactStatus = 'new';
+        try {
+            const existing = await vscode.workspace.fs.readFile(target);
+            status = Buffer.from(existing).equals(data) ? 'unchanged' : 'changed';
+        } catch {
+            // No file yet
+        }
+        return { artifact, data, target, status, binary: isBinary(data) };
+    }));
+}
+
+/** Same heuristic as git: a NUL byte near the start means binary. */
+function isBinary(data: Uint8Array): boolean {
+    return data.subarray(0, 8000).includes(0);
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Lets the user pick which new and changed artifacts to write. The diff
+ * button on each entry opens the incoming content side by side with the
+ * workspace copy. Resolves with the accepted artifacts; dismissing the
+ * picker rejects them all.
+ */
+export async function reviewArtifacts(incoming: IncomingArtifact[]): Promise<IncomingArtifact[]> {
+    const diffButton: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('diff'),
+        tooltip: 'Compare with workspace copy'
+    };
+
+    const items: ArtifactPickItem[] = incoming
+        .filter(i => i.status !== 'unchanged')
+        .map(i => ({
+            label: `${STATUS_ICONS[i.status]} ${i.artifact.path}`,
+            description: `${i.status === 'new' ? 'new file' : 'changed'}${i.binary ? `, binary ${formatSize(i.data.length)}` : ''}`,
+            detail: i.status === 'changed' ? 'Overwrites the workspace copy' : undefined,
+            // Binary files have nothing to show side by side
+            buttons: i.status === 'changed' && !i.binary ? [diffButton] : [],
+            incoming: i
+        }));
+    const unchanged = incoming.length - items.length;
+
+    const quickPick = vscode.window.createQuickPick<ArtifactPickItem>();
+    quickPick.title = `Review session artifacts${unchanged > 0 ? ` (${unchanged} unchanged)` : ''}`;
+    quickPick.placeholder = 'Select the files to write - Esc rejects all';
+    quickPick.canSelectMany = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.matchOnDescription = true;
+    quickPick.items = items;
+    // New files cannot clobber anything, so they start accepted
+    quickPick.selectedItems = items.filter(item => item.incoming.status === 'new');
+
+    const opened: string[] = [];
+    try {
+        return await new Promise<IncomingArtifact[]>(resolve => {
+            quickPick.onDidTriggerItemButton(async event => {
+                const uri = await showArtifactDiff(event.item.incoming);
+                opened.push(uri.toString());
+            });
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems.map(item => item.incoming));
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => resolve([]));
+            quickPick.show();
+        });
+    } finally {
+        quickPick.dispose();
+        opened.forEach(uri => incomingContent.delete(uri));
+    }
+}
+
+async function showArtifactDiff(incoming: IncomingArtifact): Promise<vscode.Uri> {
+    const uri = vscode.Uri.from({ scheme: INCOMING_SCHEME, path: incoming.target.path });
+    incomingContent.set(uri.toString(), Buffer.from(incoming.data).toString('utf-8'));
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        incoming.target,
+        uri,
+        `${incoming.artifact.path} (workspace ↔ incoming)`,
+        { preview: true, preserveFocus: true }
+    );
+    return uri;
+}
+
+export function registerArtifactReviewProvider(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(INCOMING_SCHEME, new IncomingArtifactProvider())
+    );
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContextAttachment } from './client';
+
+export type ContextKind = ContextAttachment['kind'];
+
+const MENTION_PATTERN = /(^|\s)@(file|selection|diagnostics|workspace)\b/g;
+const MAX_ATTACHMENT_CHARS = 50000;
+const MAX_WORKSPACE_FILES = 500;
+const WORKSPACE_EXCLUDE = '{**/node_modules/**,**/.git/**,**/out/**}';
+
+/** Context mentions (`@file`, `@selection`, ...) in a chat message, without duplicates. */
+export function findMentions(text: string): ContextKind[] {
+    const kinds = new Set<ContextKind>();
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+        kinds.add(match[2] as ContextKind);
+    }
+    return [...kinds];
+}
+
+/**
+ * Captures one kind of editor context as it is right now. Throws with a
+ * message for the user when there is nothing to attach, e.g. `@selection`
+ * with no editor open.
+ */
+export async function buildAttachment(kind: ContextKind, editor: vscode.TextEditor | undefined): Promise<ContextAttachment> {
+    switch (kind) {
+        case 'file': {
+            if (!editor) throw new Error('@file needs an open editor');
+            const doc = editor.document;
+            return {
+                kind,
+                path: relativePath(doc.uri),
+                language: doc.languageId,
+                ...limit(doc.getText())
+            };
+        }
+        case 'selection': {
+            if (!editor || editor.selection.isEmpty) throw new Error('@selection needs some selected text in an editor');
+            const doc = editor.document;
+            const selection = editor.selection;
+            return {
+                kind,
+                path: relativePath(doc.uri),
+                language: doc.languageId,
+                startLine: selection.start.line + 1,
+                endLine: selection.end.line + 1,
+                ...limit(doc.getText(selection))
+            };
+        }
+        case 'diagnostics': {
+            // The current file's problems, or the whole workspace's without an editor
+            const entries: [vscode.Uri, readonly vscode.Diagnostic[]][] = editor
+                ? [[editor.document.uri, vscode.languages.getDiagnostics(editor.document.uri)]]
+                : vscode.languages.getDiagnostics();
+            const lines = entries.flatMap(([uri, diagnostics]) => diagnostics.map(d => formatDiagnostic(uri, d)));
+            if (lines.length === 0) throw new Error(editor ? `No problems reported for ${path.basename(editor.document.fileName)}` : 'No problems reported');
+            return {
+                kind,
+                path: editor ? relativePath(editor.document.uri) : undefined,
+                ...limit(lines.join('\n'))
+            };
+        }
+        case 'workspace': {
+            if (!vscode.workspace.workspaceFolders?.length) throw new Error('@workspace needs an open folder');
+            const uris = await vscode.workspace.findFiles('**/*', WORKSPACE_EXCLUDE, MAX_WORKSPACE_FILES);
+            const files = uris.map(relativePath).sort();
+            const result = limit(files.join('\n'));
+            return { kind, ...result, truncated: result.truncated || uris.length >= MAX_WORKSPACE_FILES };
+        }
+    }
+}
+
+/** Short chip text for an attachment. */
+export function attachmentLabel(attachment: ContextAttachment): string {
+    const name = attachment.path ? path.basename(attachment.path) : '';
+    switch (attachment.kind) {
+        case 'file':
+            return `📄 ${name}`;
+        case 'selection':
+            return attachment.startLine === attachment.endLine
+                ? `✂️ ${name}:${attachment.startLine}`
+                : `✂️ ${name}:${attachment.startLine}-${attachment.endLine}`;
+        case 'diagnostics': {
+            const count = attachment.content.split('\n').length;
+            return `⚠️ ${name ? name + ' ' : ''}problems (${count})`;
+        }
+        case 'workspace':
+            return `🗂️ Workspace (${attachment.content.split('\n').length}${attachment.truncated ? '+' : ''} files)`;
+    }
+}
+
+function relativePath(uri: vscode.Uri): string {
+    return uri.scheme === 'file' ? vscode.workspace.asRelativePath(uri) : uri.path;
+}
+
+function formatDiagnostic(uri: vscode.Uri, diagnostic: vscode.Diagnostic): string {
+    const severity = ['error', 'warning', 'info', 'hint'][diagnostic.severity];
+    const position = `${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1}`;
+    const source = diagnostic.source ? ` (${diagnostic.source})` : '';
+    return `${relativePath(uri)}:${position} ${severity}: ${diagnostic.message}${source}`;
+}
+
+function limit(content: string): { content: string, truncated?: boolean } {
+    return content.length > MAX_ATTACHMENT_CHARS
+        ? { content: content.substring(0, MAX_ATTACHMENT_CHARS), truncated: true }
+        : { content };
+}
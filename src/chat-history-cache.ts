@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { ChatMessage, SessionSummary } from './api-types';
+
+const MAX_CACHED_MESSAGES = 200;
+const ALL_SESSIONS = '*';
+
+interface CachedProjectHistory {
+    /** Messages per session id, plus ALL_SESSIONS for the combined timeline */
+    messages: Record<string, ChatMessage[]>;
+    sessions: SessionSummary[];
+}
+
+/**
+ * Keeps the most recent chat messages per project in workspace storage so
+ * the panel can show the conversation when the server is unreachable.
+ */
+export class ChatHistoryCache {
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    getMessages(projectId: string, sessionId?: string): ChatMessage[] {
+        return this.read(projectId).messages[sessionId || ALL_SESSIONS] || [];
+    }
+
+    getSessions(projectId: string): SessionSummary[] {
+        return this.read(projectId).sessions;
+    }
+
+    /** Replaces the cached newest page, e.g. after a successful load. */
+    async setMessages(projectId: string, messages: ChatMessage[], sessionId?: string): Promise<void> {
+        const history = this.read(projectId);
+        history.messages[sessionId || ALL_SESSIONS] = messages.slice(-MAX_CACHED_MESSAGES);
+        await this.write(projectId, history);
+    }
+
+    /** Appends a live message to the combined timeline and to its session. */
+    async append(projectId: string, message: ChatMessage): Promise<void> {
+        const history = this.read(projectId);
+        const keys = message.sessionId ? [ALL_SESSIONS, message.sessionId] : [ALL_SESSIONS];
+        for (const key of keys) {
+            history.messages[key] = [...(history.messages[key] || []), message].slice(-MAX_CACHED_MESSAGES);
+        }
+        await this.write(projectId, history);
+    }
+
+    async setSessions(projectId: string, sessions: SessionSummary[]): Promise<void> {
+        const history = this.read(projectId);
+        history.sessions = sessions;
+        await this.write(projectId, history);
+    }
+
+    private read(projectId: string): CachedProjectHistory {
+        const stored = this.context.workspaceState.get<CachedProjectHistory>(this.key(projectId));
+        return {
+            messages: { ...(stored?.messages || {}) },
+            sessions: stored?.sessions || []
+        };
+    }
+
+    private async write(projectId: string, history: CachedProjectHistory): Promise<void> {
+        await this.context.workspaceState.update(this.key(projectId), history);
+    }
+
+    private key(projectId: string): string {
+        return `chatHistory:${projectId}`;
+    }
+}
@@ -1,24 +1,68 @@
 import * as vscode from 'vscode';
-import { apiFetch, ensureApiKey, getApiKey } from './api';
-import { getEphemeralProject, cleanupEphemeralProject } from './project-manager';
-import { uploadWorkspaceFiles, downloadArtifacts } from './file-manager';
-import { Config } from './config';
+import { ensureApiKey, getApiKey } from './api';
+import { ContextAttachment, ReflexibleClient } from './client';
+import { ChatMessage, ExtConfig } from './api-types';
+import { ProjectBindings } from './project-binding';
+import { ChatHistoryCache } from './chat-history-cache';
+import { CodeBlockActions, PROPOSAL_SCHEME } from './code-block-actions';
+import { ContextKind, attachmentLabel, buildAttachment, findMentions } from './chat-context';
+import { EditorTracker } from './editor-tracker';
+import { renderMarkdown } from './markdown';
+import { SessionManager, SessionViewer } from './session-manager';
+
+const HISTORY_PAGE_SIZE = 50;
+
+/** Context chip shown above the input until the next message is sent */
+interface PendingContext {
+    id: number;
+    attachment: ContextAttachment;
+}
+
+interface HistoryState {
+    /** Session whose history is shown; undefined for the whole project timeline */
+    sessionId?: string;
+    cursor?: string;
+    hasMore: boolean;
+    loading: boolean;
+}
 
 export class ChatPanelManager {
     private static panels: Map<string, vscode.WebviewPanel> = new Map();
     private currentMode: 'chat' | 'basic' | 'pro' = 'chat';
-    private config: any = null;
+    private config: ExtConfig | null = null;
     private currentProjectId: string | null = null;
-    private currentProjectName: string | null = null;
+    private readonly historyStates: Map<string, HistoryState> = new Map();
+    private readonly historyCache: ChatHistoryCache;
+    private readonly codeBlockActions: CodeBlockActions;
+    private readonly editors: EditorTracker;
+    private readonly pendingContext: Map<string, PendingContext[]> = new Map();
+    private readonly viewers: Map<string, SessionViewer> = new Map();
+    /** Name of each project with an open panel */
+    private readonly projectNames: Map<string, string> = new Map();
+    private nextContextId = 1;
     
     constructor(
         private readonly context: vscode.ExtensionContext,
-        private readonly outputChannel: vscode.OutputChannel
-    ) {}
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly sessionManager: SessionManager
+    ) {
+        this.historyCache = new ChatHistoryCache(context);
+        this.editors = new EditorTracker([PROPOSAL_SCHEME]);
+        this.codeBlockActions = new CodeBlockActions(outputChannel, this.editors);
+        context.subscriptions.push(
+            this.editors,
+            this.codeBlockActions,
+            // The session list in an open panel picks up the finished session
+            sessionManager.onDidEndSession(({ session }) => {
+                const panel = ChatPanelManager.panels.get(session.projectId);
+                if (panel && session.sessionId) this.loadHistorySessions(panel, session.projectId);
+            })
+        );
+    }
 
     public async showForProject(projectId: string, projectName: string) {
         this.currentProjectId = projectId;
-        this.currentProjectName = projectName;
+        this.projectNames.set(projectId, projectName);
         const column = vscode.ViewColumn.Two; // Always open in second column
 
         // Check if panel already exists for this project
@@ -49,29 +93,133 @@ export class ChatPanelManager {
         await this.updateContent(panel, projectId);
         this.setupMessageHandlers(panel, projectId);
 
+        // A folder bound to this project picks the mode chats start in
+        const computeMode = (await ProjectBindings.get().findProject(projectId))?.binding.computeMode;
+        if (computeMode) {
+            this.currentMode = computeMode;
+            panel.webview.postMessage({ type: 'modeChanged', mode: computeMode });
+        }
+
         panel.onDidDispose(() => {
             ChatPanelManager.panels.delete(projectId);
+            this.historyStates.delete(projectId);
+            this.pendingContext.delete(projectId);
+            this.projectNames.delete(projectId);
+            // Stop showing the session; it keeps running in the background
+            const viewer = this.viewers.get(projectId);
+            if (viewer) {
+                this.sessionManager.unfollow(viewer);
+                this.viewers.delete(projectId);
+            }
         }, null, this.context.subscriptions);
         
         // Load chat history
-        await this.loadChatHistory(panel, projectId);
+        await Promise.all([
+            this.loadChatHistory(panel, projectId),
+            this.loadHistorySessions(panel, projectId)
+        ]);
+
+        // Catch up on a session that kept running while no panel was open
+        this.sessionManager.follow(projectId, this.viewer(projectId, panel));
+    }
+
+    private historyState(projectId: string): HistoryState {
+        let state = this.historyStates.get(projectId);
+        if (!state) {
+            state = { hasMore: false, loading: false };
+            this.historyStates.set(projectId, state);
+        }
+        return state;
     }
 
-    private async loadChatHistory(panel: vscode.WebviewPanel, projectId: string) {
+    /**
+     * Loads the newest page of history, or with `older` the page before the
+     * oldest one shown. Falls back to the workspace cache when the server
+     * cannot be reached.
+     */
+    private async loadChatHistory(panel: vscode.WebviewPanel, projectId: string, older = false) {
+        const state = this.historyState(projectId);
+        if (state.loading || (older && !state.hasMore)) return;
+        state.loading = true;
+        const sessionId = state.sessionId;
+
         try {
-            const res = await apiFetch(this.context, `/api/projects/${projectId}/chat-history`, { method: 'GET' });
-            const data = await res.json() as any;
+            const page = await ReflexibleClient.for(this.context).getChatHistory(projectId, {
+                before: older ? state.cursor : undefined,
+                limit: HISTORY_PAGE_SIZE,
+                sessionId
+            });
+            // The user picked another session while this page was loading
+            if (state.sessionId !== sessionId) return;
             
-            if (data.messages && data.messages.length > 0) {
-                panel.webview.postMessage({ 
-                    type: 'loadHistory', 
-                    messages: data.messages 
-                });
-                this.outputChannel.appendLine(`Loaded ${data.messages.length} chat messages`);
+            state.cursor = page.cursor;
+            state.hasMore = page.hasMore;
+            if (!older) {
+                await this.historyCache.setMessages(projectId, page.messages, sessionId);
             }
+            this.post(panel, { 
+                type: 'loadHistory', 
+                messages: this.renderHistory(page.messages),
+                hasMore: page.hasMore,
+                prepend: older
+            });
+            this.outputChannel.appendLine(`Loaded ${page.messages.length} chat messages`);
         } catch (e: any) {
             this.outputChannel.appendLine('Failed to load chat history: ' + e.message);
+            if (older) {
+                this.post(panel, { type: 'historyLoadFailed' });
+                return;
+            }
+            state.hasMore = false;
+            const cached = this.historyCache.getMessages(projectId, sessionId);
+            this.post(panel, {
+                type: 'loadHistory',
+                messages: this.renderHistory(cached),
+                hasMore: false,
+                prepend: false,
+                offline: true
+            });
+        } finally {
+            state.loading = false;
+        }
+    }
+
+    /** Assistant messages are rendered from markdown here, not in the webview */
+    private renderHistory(messages: ChatMessage[]) {
+        return messages.map(message => ({
+            role: message.role,
+            content: message.content,
+            html: message.role === 'user' ? undefined : renderMarkdown(message.content)
+        }));
+    }
+
+    private async loadHistorySessions(panel: vscode.WebviewPanel, projectId: string) {
+        let sessions;
+        try {
+            sessions = await ReflexibleClient.for(this.context).listSessions(projectId);
+            await this.historyCache.setSessions(projectId, sessions);
+        } catch (e: any) {
+            this.outputChannel.appendLine('Failed to load sessions: ' + e.message);
+            sessions = this.historyCache.getSessions(projectId);
         }
+        this.post(panel, {
+            type: 'historySessions',
+            selected: this.historyState(projectId).sessionId || '',
+            sessions: sessions.map(session => {
+                const started = session.createdAt ? new Date(session.createdAt).toLocaleString() : session.id.substring(0, 8);
+                const details = [session.mode, session.status].filter(Boolean).join(', ');
+                return {
+                    id: session.id,
+                    label: `${session.title || started}${details ? ` (${details})` : ''}`
+                };
+            })
+        });
+    }
+
+    private async selectHistorySession(panel: vscode.WebviewPanel, projectId: string, sessionId: string | undefined) {
+        this.historyStates.set(projectId, { sessionId, hasMore: false, loading: false });
+        this.post(panel, { type: 'clearChat' });
+        await this.loadChatHistory(panel, projectId);
     }
 
     private async updateContent(panel: vscode.WebviewPanel, projectId: string) {
@@ -79,8 +227,7 @@ export class ChatPanelManager {
         try {
             const apiKey = await getApiKey(this.context);
             if (apiKey) {
-                const res = await apiFetch(this.context, '/api/ext/config', { method: 'GET' });
-                this.config = await res.json();
+                this.config = await ReflexibleClient.for(this.context).getExtConfig();
             }
         } catch (e) {
             this.outputChannel.appendLine('Failed to fetch config: ' + e);
@@ -105,7 +252,7 @@ export class ChatPanelManager {
                         await this.handleSendMessage(panel, projectId, message.text, message.mode);
                         break;
                     case 'stop':
-                        await this.handleStop(message.sessionId);
+                        await this.sessionManager.stop(projectId);
                         break;
                     case 'changeMode':
                         this.currentMode = message.mode;
@@ -114,6 +261,21 @@ export class ChatPanelManager {
                     case 'newSession':
                         await this.handleNewSession(panel, projectId);
                         break;
+                    case 'loadMoreHistory':
+                        await this.loadChatHistory(panel, projectId, true);
+                        break;
+                    case 'addContext':
+                        await this.addContext(panel, projectId, message.kind);
+                        break;
+                    case 'removeContext':
+                        this.removeContext(panel, projectId, message.id);
+                        break;
+                    case 'codeAction':
+                        await this.codeBlockActions.run(message.action, message.code || '', message.language || '');
+                        break;
+                    case 'selectHistorySession':
+                        await this.selectHistorySession(panel, projectId, message.sessionId || undefined);
+                        break;
                 }
             },
             null,
@@ -127,6 +289,11 @@ export class ChatPanelManager {
             if (apiKey) {
                 await this.updateContent(panel, projectId);
                 panel.webview.postMessage({ type: 'authenticated' });
+                this.historyStates.delete(projectId);
+                await Promise.all([
+                    this.loadChatHistory(panel, projectId),
+                    this.loadHistorySessions(panel, projectId)
+                ]);
                 vscode.window.showInformationMessage('✅ Authenticated with Reflexible');
             }
         } catch (e: any) {
@@ -137,10 +304,88 @@ export class ChatPanelManager {
 
     private async handleNewSession(panel: vscode.WebviewPanel, projectId: string) {
         // Clear chat context on client
+        this.historyStates.delete(projectId);
         panel.webview.postMessage({ type: 'clearChat' });
         this.outputChannel.appendLine('Started new chat session for project: ' + projectId);
     }
 
+    /**
+     * Attaches the selection in `editor`, or the whole file when nothing is
+     * selected, to the next message in the most recently opened chat.
+     */
+    public async attachSelection(editor: vscode.TextEditor | undefined = this.editors.current) {
+        const projectId = this.currentProjectId;
+        const panel = projectId ? ChatPanelManager.panels.get(projectId) : undefined;
+        if (!projectId || !panel) {
+            vscode.window.showWarningMessage('Open a project chat from the Reflexible sidebar first');
+            return;
+        }
+        if (!editor) {
+            vscode.window.showWarningMessage('Select some code in an editor first');
+            return;
+        }
+        try {
+            const attachment = await buildAttachment(editor.selection.isEmpty ? 'file' : 'selection', editor);
+            this.addPendingContext(panel, projectId, attachment);
+            panel.reveal(undefined, false);
+        } catch (e: any) {
+            vscode.window.showWarningMessage(e.message);
+        }
+    }
+
+    private async addContext(panel: vscode.WebviewPanel, projectId: string, kind: ContextKind) {
+        try {
+            this.addPendingContext(panel, projectId, await buildAttachment(kind, this.editors.current));
+        } catch (e: any) {
+            this.post(panel, { type: 'contextError', message: e.message });
+        }
+    }
+
+    private addPendingContext(panel: vscode.WebviewPanel, projectId: string, attachment: ContextAttachment) {
+        // A newer capture of the same context replaces the older one
+        const pending = (this.pendingContext.get(projectId) || []).filter(p =>
+            p.attachment.kind !== attachment.kind || p.attachment.path !== attachment.path || attachment.kind === 'selection');
+        pending.push({ id: this.nextContextId++, attachment });
+        this.pendingContext.set(projectId, pending);
+        this.postContext(panel, projectId);
+    }
+
+    private removeContext(panel: vscode.WebviewPanel, projectId: string, id: number) {
+        const pending = this.pendingContext.get(projectId) || [];
+        this.pendingContext.set(projectId, pending.filter(p => p.id !== id));
+        this.postContext(panel, projectId);
+    }
+
+    private postContext(panel: vscode.WebviewPanel, projectId: string) {
+        this.post(panel, {
+            type: 'context',
+            items: (this.pendingContext.get(projectId) || []).map(p => ({
+                id: p.id,
+                label: attachmentLabel(p.attachment),
+                title: p.attachment.path || p.attachment.kind
+            }))
+        });
+    }
+
+    /**
+     * Takes the pending context for a message being sent, capturing any
+     * mention typed too quickly to have become a chip.
+     */
+    private async takeContext(panel: vscode.WebviewPanel, projectId: string, text: string): Promise<ContextAttachment[]> {
+        const attachments = (this.pendingContext.get(projectId) || []).map(p => p.attachment);
+        for (const kind of findMentions(text)) {
+            if (attachments.some(a => a.kind === kind)) continue;
+            try {
+                attachments.push(await buildAttachment(kind, this.editors.current));
+            } catch (e: any) {
+                this.post(panel, { type: 'status', message: `${e.message} - sending without it` });
+            }
+        }
+        this.pendingContext.delete(projectId);
+        this.postContext(panel, projectId);
+        return attachments;
+    }
+
     private async handleSendMessage(panel: vscode.WebviewPanel, projectId: string, text: string, mode: string) {
         if (!text.trim()) return;
 
@@ -153,111 +398,62 @@ export class ChatPanelManager {
             return;
         }
 
-        panel.webview.postMessage({ type: 'userMessage', text });
-
-        try {
-            // Start session directly without uploading files
-            panel.webview.postMessage({ type: 'status', message: `Starting ${mode} session...` });
-            const res = await apiFetch(this.context, '/api/v1/agent/dispatch', {
-                method: 'POST',
-                body: JSON.stringify({
-                    projectId,
-                    message: text,
-                    computeConfig: mode
-                })
+        if (this.sessionManager.get(projectId)) {
+            panel.webview.postMessage({ 
+                type: 'error', 
+                message: 'A session is already running for this project - stop it first' 
             });
-            const data = await res.json() as any;
-            const sessionId = data.sessionId;
+            return;
+        }
 
-            if (!sessionId) {
-                throw new Error('No session ID returned');
-            }
+        const attachments = await this.takeContext(panel, projectId, text);
+        panel.webview.postMessage({ type: 'userMessage', text, attachments: attachments.map(attachmentLabel) });
+        await this.historyCache.append(projectId, { role: 'user', content: text, createdAt: new Date().toISOString() });
 
-            panel.webview.postMessage({ type: 'sessionStarted', sessionId });
+        // The session runs in the background and outlives this panel
+        this.sessionManager.start(projectId, this.projectNames.get(projectId) ?? projectId, mode, text, attachments, this.viewer(projectId, panel));
+    }
 
-            // Stream SSE
-            await this.streamSSE(panel, sessionId, projectId);
+    /**
+     * Opens the project's chat and follows a session that is still running on
+     * the server, e.g. one started before the window was reloaded.
+     */
+    public async attachSession(projectId: string, projectName: string, sessionId: string, mode?: string): Promise<void> {
+        this.sessionManager.attach(projectId, projectName, sessionId, mode);
+        await this.showForProject(projectId, projectName);
+        const panel = ChatPanelManager.panels.get(projectId);
+        if (panel) this.sessionManager.follow(projectId, this.viewer(projectId, panel));
+    }
 
-        } catch (e: any) {
-            this.outputChannel.appendLine('Send message error: ' + e.message);
-            this.outputChannel.appendLine('Stack: ' + e.stack);
-            panel.webview.postMessage({ type: 'error', message: e.message });
-            vscode.window.showErrorMessage('Reflexible: ' + e.message, 'View Logs').then(selection => {
-                if (selection === 'View Logs') {
-                    this.outputChannel.show();
-                }
-            });
-        }
+    /** Opens the project's chat showing only the history of one session. */
+    public async showTranscript(projectId: string, projectName: string, sessionId: string): Promise<void> {
+        await this.showForProject(projectId, projectName);
+        const panel = ChatPanelManager.panels.get(projectId);
+        if (!panel || this.historyState(projectId).sessionId === sessionId) return;
+        await this.selectHistorySession(panel, projectId, sessionId);
+        await this.loadHistorySessions(panel, projectId);
     }
 
-    private async handleStop(sessionId: string) {
-        try {
-            await apiFetch(this.context, '/api/v1/agent/stop', {
-                method: 'POST',
-                body: JSON.stringify({ sessionId })
-            });
-            // Note: panel reference not available here, would need to track it
-        } catch (e: any) {
-            this.outputChannel.appendLine('Failed to stop: ' + e);
+    /** The panel as seen by the session manager; one per panel so following twice is harmless. */
+    private viewer(projectId: string, panel: vscode.WebviewPanel): SessionViewer {
+        let viewer = this.viewers.get(projectId);
+        if (!viewer) {
+            viewer = {
+                get visible() { return panel.visible; },
+                post: message => this.post(panel, message)
+            };
+            this.viewers.set(projectId, viewer);
         }
+        return viewer;
     }
 
-    private async streamSSE(panel: vscode.WebviewPanel, sessionId: string, projectId: string) {
-        const apiKey = await getApiKey(this.context);
-        if (!apiKey) return;
-
-        const { fetch } = await import('./fetch-polyfill');
-        const url = `${Config.baseUrl}/api/v1/sse?session_id=${encodeURIComponent(sessionId)}`;
-        const resp = await fetch(url, { headers: { 'x-api-key': apiKey } });
-
-        if (!resp.ok || !resp.body) return;
-
-        const reader = resp.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
-
-        const pump = async (): Promise<void> => {
-            const { value, done } = await reader.read();
-            if (done) return;
-
-            buffer += decoder.decode(value, { stream: true });
-            const parts = buffer.split('\n\n');
-            buffer = parts.pop() || '';
-
-            for (const part of parts) {
-                const lines = part.split('\n');
-                let data = '';
-                for (const line of lines) {
-                    if (line.startsWith('data:')) data += line.slice(5).trim();
-                }
-
-                try {
-                    const parsed = JSON.parse(data);
-                    panel.webview.postMessage({ type: 'sse', data: parsed });
-
-                    if (parsed.type === 'complete') {
-                        // Auto-download artifacts
-                        const artifactCount = await downloadArtifacts(
-                            this.context,
-                            sessionId,
-                            this.outputChannel
-                        );
-                        if (artifactCount > 0) {
-                            panel.webview.postMessage({ 
-                                type: 'artifactsDownloaded', 
-                                count: artifactCount 
-                            });
-                        }
-                        return;
-                    }
-                } catch (e) {
-                    // Ignore parse errors
-                }
-            }
-            return pump();
-        };
-
-        await pump();
+    /** The panel may have been closed while a session was winding down. */
+    private post(panel: vscode.WebviewPanel, message: any) {
+        try {
+            panel.webview.postMessage(message);
+        } catch {
+            // Disposed
+        }
     }
 
 
@@ -373,6 +569,10 @@ export class ChatPanelManager {
         .send-button:hover {
             background: var(--vscode-button-hoverBackground);
         }
+        .send-button.stop {
+            background: var(--vscode-inputValidation-errorBackground, var(--vscode-button-secondaryBackground));
+            color: var(--vscode-foreground);
+        }
         .send-button:disabled {
             opacity: 0.5;
             cursor: not-allowed;
@@ -390,6 +590,127 @@ export class ChatPanelManager {
             cursor: pointer;
             font-size: 14px;
         }
+        .assistant-message p, .assistant-message ul, .assistant-message ol,
+        .assistant-message blockquote, .assistant-message .code-block {
+            margin: 6px 0;
+        }
+        .assistant-message ul, .assistant-message ol {
+            padding-left: 20px;
+        }
+        .assistant-message blockquote {
+            padding-left: 10px;
+            border-left: 3px solid var(--vscode-textBlockQuote-border);
+            color: var(--vscode-descriptionForeground);
+        }
+        .assistant-message h1, .assistant-message h2, .assistant-message h3 {
+            margin: 10px 0 6px;
+            font-size: 1.1em;
+        }
+        .assistant-message a {
+            color: var(--vscode-textLink-foreground);
+        }
+        .assistant-message code {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            background: var(--vscode-textCodeBlock-background);
+            padding: 1px 4px;
+            border-radius: 3px;
+        }
+        .code-block {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            overflow: hidden;
+        }
+        .code-toolbar {
+            display: flex;
+            gap: 4px;
+            align-items: center;
+            padding: 4px 8px;
+            background: var(--vscode-sideBar-background);
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .code-language {
+            flex: 1;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .code-toolbar button {
+            padding: 2px 6px;
+            font-size: 11px;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        .code-toolbar button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+        .code-block pre {
+            margin: 0;
+            padding: 8px;
+            overflow-x: auto;
+            background: var(--vscode-textCodeBlock-background);
+        }
+        .code-block pre code {
+            padding: 0;
+            background: none;
+        }
+        .tok-keyword { color: var(--vscode-symbolIcon-keywordForeground, #569cd6); }
+        .tok-string { color: var(--vscode-debugTokenExpression-string, #ce9178); }
+        .tok-number { color: var(--vscode-debugTokenExpression-number, #b5cea8); }
+        .tok-comment { color: var(--vscode-descriptionForeground); font-style: italic; }
+        .context-chips {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            margin-bottom: 6px;
+        }
+        .context-chips:empty {
+            display: none;
+        }
+        .chip {
+            display: inline-flex;
+            align-items: center;
+            gap: 4px;
+            padding: 1px 6px;
+            font-size: 11px;
+            border-radius: 10px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .chip button {
+            background: none;
+            border: none;
+            color: inherit;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        .user-message .context-chips {
+            margin: 4px 0 0;
+        }
+        .header-controls {
+            display: flex;
+            gap: 8px;
+        }
+        .history-bar {
+            padding: 6px 16px;
+            font-size: 12px;
+            text-align: center;
+            color: var(--vscode-descriptionForeground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .history-bar button {
+            background: none;
+            border: none;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            font-size: 12px;
+        }
+        .history-bar button:disabled {
+            color: var(--vscode-descriptionForeground);
+            cursor: default;
+        }
         .hidden { display: none; }
     </style>
 </head>
@@ -405,21 +726,32 @@ export class ChatPanelManager {
     <div id="chatInterface" class="${isAuthenticated ? '' : 'hidden'}" style="display: flex; flex-direction: column; height: 100%;">
         <div class="header">
             <div class="credits" id="credits">Credits: Loading...</div>
-            <select class="mode-selector" id="modeSelector">
-                <option value="chat">💬 Chat (Free)</option>
-                <option value="basic">⚡ Basic (5 cr)</option>
-                <option value="pro">🚀 Pro (20 cr)</option>
-            </select>
+            <div class="header-controls">
+                <select class="mode-selector" id="historySelector" title="Conversation history">
+                    <option value="">🕘 All history</option>
+                </select>
+                <select class="mode-selector" id="modeSelector">
+                    <option value="chat">💬 Chat (Free)</option>
+                    <option value="basic">⚡ Basic (5 cr)</option>
+                    <option value="pro">🚀 Pro (20 cr)</option>
+                </select>
+            </div>
+        </div>
+
+        <div class="history-bar hidden" id="historyBar">
+            <span id="historyOffline" class="hidden">⚠️ Offline — showing cached history</span>
+            <button id="loadMoreButton" class="hidden">Load earlier messages</button>
         </div>
 
         <div class="messages" id="messages"></div>
 
         <div class="input-area">
+            <div class="context-chips" id="contextChips"></div>
             <div class="input-row">
                 <textarea 
                     id="inputBox" 
                     class="input-box" 
-                    placeholder="Ask Reflexible AI..."
+                    placeholder="Ask Reflexible AI... (@file, @selection, @diagnostics, @workspace to attach context)"
                     rows="1"
                 ></textarea>
                 <button id="sendButton" class="send-button" disabled>→</button>
@@ -436,17 +768,66 @@ export class ChatPanelManager {
         const creditsEl = document.getElementById('credits');
         const authPrompt = document.getElementById('authPrompt');
         const chatInterface = document.getElementById('chatInterface');
+        const historySelector = document.getElementById('historySelector');
+        const historyBar = document.getElementById('historyBar');
+        const historyOffline = document.getElementById('historyOffline');
+        const loadMoreButton = document.getElementById('loadMoreButton');
+        const contextChips = document.getElementById('contextChips');
         
         let currentSessionId = null;
         let currentTodos = [];
+        let running = false;
+        let stopRequested = false;
+        let historyHasMore = false;
+        let historyLoading = false;
+        // Mentions in the current draft that were already turned into chips
+        let mentioned = new Set();
 
         // Auto-resize textarea
         inputBox.addEventListener('input', () => {
             inputBox.style.height = 'auto';
             inputBox.style.height = Math.min(inputBox.scrollHeight, 120) + 'px';
-            sendButton.disabled = !inputBox.value.trim();
+            if (!running) sendButton.disabled = !inputBox.value.trim();
+            detectMentions();
+        });
+
+        // A mention becomes a chip once it is followed by a space, so the
+        // attached file or selection is the one current while typing
+        function detectMentions() {
+            const pattern = /(^|\\s)@(file|selection|diagnostics|workspace)(?=\\s)/g;
+            let match;
+            while ((match = pattern.exec(inputBox.value)) !== null) {
+                if (mentioned.has(match[2])) continue;
+                mentioned.add(match[2]);
+                vscode.postMessage({ type: 'addContext', kind: match[2] });
+            }
+        }
+
+        contextChips.addEventListener('click', event => {
+            const button = event.target.closest('[data-remove-context]');
+            if (button) {
+                vscode.postMessage({ type: 'removeContext', id: Number(button.dataset.removeContext) });
+            }
         });
 
+        function renderChips(container, items, removable) {
+            container.innerHTML = '';
+            items.forEach(item => {
+                const chip = document.createElement('span');
+                chip.className = 'chip';
+                chip.textContent = item.label;
+                chip.title = item.title || item.label;
+                if (removable) {
+                    const remove = document.createElement('button');
+                    remove.textContent = '×';
+                    remove.title = 'Remove';
+                    remove.dataset.removeContext = item.id;
+                    chip.appendChild(remove);
+                }
+                container.appendChild(chip);
+            });
+        }
+
         // Send on Enter (Shift+Enter for new line)
         inputBox.addEventListener('keydown', (e) => {
             if (e.key === 'Enter' && !e.shiftKey) {
@@ -455,12 +836,57 @@ export class ChatPanelManager {
             }
         });
 
-        sendButton.onclick = sendMessage;
+        sendButton.onclick = () => running ? stopSession() : sendMessage();
 
         modeSelector.onchange = () => {
             vscode.postMessage({ type: 'changeMode', mode: modeSelector.value });
         };
 
+        historySelector.onchange = () => {
+            setHistoryState(false, false);
+            vscode.postMessage({ type: 'selectHistorySession', sessionId: historySelector.value });
+        };
+
+        // Older pages load when scrolling to the top, or via the button when
+        // the first page does not fill the view
+        loadMoreButton.onclick = () => loadMoreHistory();
+        messages.addEventListener('scroll', () => {
+            if (messages.scrollTop < 40) loadMoreHistory();
+        });
+
+        // Code block buttons are rendered by the extension; their actions run there too
+        messages.addEventListener('click', event => {
+            const button = event.target.closest('[data-code-action]');
+            if (!button) return;
+            const block = button.closest('.code-block');
+            const code = block && block.querySelector('code');
+            if (!code) return;
+            vscode.postMessage({
+                type: 'codeAction',
+                action: button.dataset.codeAction,
+                code: code.textContent,
+                language: block.dataset.language || ''
+            });
+        });
+
+        function loadMoreHistory() {
+            if (!historyHasMore || historyLoading) return;
+            historyLoading = true;
+            loadMoreButton.disabled = true;
+            loadMoreButton.textContent = 'Loading…';
+            vscode.postMessage({ type: 'loadMoreHistory' });
+        }
+
+        function setHistoryState(hasMore, offline) {
+            historyHasMore = hasMore;
+            historyLoading = false;
+            loadMoreButton.disabled = false;
+            loadMoreButton.textContent = 'Load earlier messages';
+            loadMoreButton.classList.toggle('hidden', !hasMore);
+            historyOffline.classList.toggle('hidden', !offline);
+            historyBar.classList.toggle('hidden', !hasMore && !offline);
+        }
+
         function authenticate() {
             vscode.postMessage({ type: 'authenticate' });
         }
@@ -474,12 +900,38 @@ export class ChatPanelManager {
             
             inputBox.value = '';
             inputBox.style.height = 'auto';
+            mentioned = new Set();
+            setRunning(true);
+        }
+
+        function stopSession() {
+            if (stopRequested) return;
+            stopRequested = true;
             sendButton.disabled = true;
-            inputBox.disabled = true;
-            sendButton.disabled = true;
+            vscode.postMessage({ type: 'stop', sessionId: currentSessionId });
         }
 
-        function addMessage(role, content, isStatus = false) {
+        // While a session runs the send button becomes a stop button
+        function setRunning(isRunning) {
+            running = isRunning;
+            inputBox.disabled = isRunning;
+            if (isRunning) {
+                stopRequested = false;
+                sendButton.textContent = '■';
+                sendButton.title = 'Stop session';
+                sendButton.classList.add('stop');
+                sendButton.disabled = false;
+            } else {
+                currentSessionId = null;
+                sendButton.textContent = '→';
+                sendButton.title = 'Send';
+                sendButton.classList.remove('stop');
+                sendButton.disabled = !inputBox.value.trim();
+                inputBox.focus();
+            }
+        }
+
+        function createMessage(role, content, isStatus = false) {
             const msg = document.createElement('div');
             msg.className = 'message ' + (role === 'user' ? 'user-message' : 'assistant-message');
             if (isStatus) msg.className += ' status-message';
@@ -487,13 +939,33 @@ export class ChatPanelManager {
             if (role === 'user') {
                 msg.innerHTML = '<strong>You:</strong><br>' + escapeHtml(content);
             } else {
-                msg.innerHTML = content; // Can contain HTML for formatting
+                // Trusted markup only: webview labels or markdown rendered by the extension
+                msg.innerHTML = content;
             }
-            
-            messages.appendChild(msg);
+            return msg;
+        }
+
+        function addMessage(role, content, isStatus = false) {
+            messages.appendChild(createMessage(role, content, isStatus));
             messages.scrollTop = messages.scrollHeight;
         }
 
+        // Older pages go above what is shown without moving the visible messages
+        function renderHistory(history, prepend) {
+            const fragment = document.createDocumentFragment();
+            history.forEach(m => fragment.appendChild(m.role === 'user'
+                ? createMessage('user', m.content)
+                : createMessage('assistant', m.html || escapeHtml(m.content))));
+
+            const previousHeight = messages.scrollHeight;
+            messages.insertBefore(fragment, messages.firstChild);
+            if (prepend) {
+                messages.scrollTop += messages.scrollHeight - previousHeight;
+            } else {
+                messages.scrollTop = messages.scrollHeight;
+            }
+        }
+
         function updateTodos(todos) {
             const existing = document.querySelector('.todos');
             if (existing) existing.remove();
@@ -543,15 +1015,64 @@ export class ChatPanelManager {
                     }
                     break;
 
-                case 'userMessage':
-                    addMessage('user', msg.text);
+                case 'modeChanged':
+                    modeSelector.value = msg.mode;
+                    break;
+
+                case 'loadHistory':
+                    renderHistory(msg.messages || [], msg.prepend);
+                    setHistoryState(msg.hasMore, msg.offline);
+                    break;
+
+                case 'historyLoadFailed':
+                    setHistoryState(historyHasMore, false);
+                    break;
+
+                case 'historySessions':
+                    historySelector.innerHTML = '<option value="">🕘 All history</option>';
+                    (msg.sessions || []).forEach(session => {
+                        const option = document.createElement('option');
+                        option.value = session.id;
+                        option.textContent = session.label;
+                        historySelector.appendChild(option);
+                    });
+                    historySelector.value = msg.selected || '';
+                    break;
+
+                case 'clearChat':
+                    messages.innerHTML = '';
+                    currentTodos = [];
+                    setHistoryState(false, false);
+                    break;
+
+                case 'userMessage': {
+                    const msgEl = createMessage('user', msg.text);
+                    if (msg.attachments && msg.attachments.length > 0) {
+                        const chips = document.createElement('div');
+                        chips.className = 'context-chips';
+                        renderChips(chips, msg.attachments.map(label => ({ label })), false);
+                        msgEl.appendChild(chips);
+                    }
+                    messages.appendChild(msgEl);
+                    messages.scrollTop = messages.scrollHeight;
+                    break;
+                }
+
+                case 'context':
+                    renderChips(contextChips, msg.items || [], true);
+                    break;
+
+                case 'contextError':
+                    addMessage('assistant', escapeHtml(msg.message), true);
                     break;
 
                 case 'status':
-                    addMessage('assistant', msg.message, true);
+                    addMessage('assistant', escapeHtml(msg.message), true);
                     break;
 
                 case 'sessionStarted':
+                    // Reattached sessions were not started from this input
+                    if (!running) setRunning(true);
                     currentSessionId = msg.sessionId;
                     addMessage('assistant', '<strong>Session started</strong>', true);
                     break;
@@ -559,34 +1080,43 @@ export class ChatPanelManager {
                 case 'sse':
                     const data = msg.data;
                     if (data.type === 'progress') {
-                        addMessage('assistant', data.message, true);
+                        addMessage('assistant', escapeHtml(data.message || ''), true);
                     } else if (data.type === 'todo_update' && data.todos) {
                         currentTodos = data.todos;
                         updateTodos(currentTodos);
                     } else if (data.type === 'content' || data.type === 'message') {
-                        addMessage('assistant', data.message || data.content);
+                        addMessage('assistant', msg.html || escapeHtml(data.message || data.content || ''));
                     } else if (data.type === 'complete') {
                         addMessage('assistant', '<strong>✅ Session completed!</strong>', true);
-                        inputBox.disabled = false;
-                        currentSessionId = null;
+                        setRunning(false);
+                    } else if (data.type === 'stopped' || data.type === 'cancelled') {
+                        addMessage('assistant', '<strong>⏹️ Session stopped</strong>', true);
+                        setRunning(false);
                     } else if (data.type === 'error') {
-                        addMessage('assistant', '<strong>❌ Error:</strong> ' + data.message);
+                        addMessage('assistant', '<strong>❌ Error:</strong> ' + escapeHtml(data.message || ''));
+                        setRunning(false);
                     }
                     break;
 
                 case 'artifactsDownloaded':
-                    addMessage('assistant', \`<strong>📥 Downloaded \${msg.count} artifacts</strong> to output/ folder\`, true);
+                    addMessage('assistant', \`<strong>📥 Downloaded \${msg.count} artifacts</strong> to \${escapeHtml(msg.location || 'output')}/\${msg.rejected ? ' (' + msg.rejected + ' rejected)' : ''}\`, true);
+                    if (msg.failed) {
+                        addMessage('assistant', \`<strong>⚠️ \${msg.failed} artifact(s) failed their integrity check</strong> and were not written - see the Output panel\`, true);
+                    }
                     break;
 
                 case 'sessionStopped':
                     addMessage('assistant', '<strong>⏹️ Session stopped</strong>', true);
-                    inputBox.disabled = false;
-                    currentSessionId = null;
+                    setRunning(false);
+                    break;
+
+                case 'sessionEnded':
+                    if (running) setRunning(false);
                     break;
 
                 case 'error':
                     addMessage('assistant', '<strong>❌ Error:</strong> ' + escapeHtml(msg.message));
-                    inputBox.disabled = false;
+                    setRunning(false);
                     break;
             }
         });
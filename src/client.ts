@@ -0,0 +1,380 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { apiFetch, getApiKey, ApiFetchOptions } from './api';
+import { Config } from './config';
+import { AuthError, IntegrityError, SchemaError, ServerError } from './errors';
+import { Schema, SchemaIssue } from './schema';
+import {
+    ProjectListSchema, ProjectResponseSchema, FileListSchema, UploadBatchSchema,
+    CompileResponseSchema, VerifyResponseSchema, DispatchResponseSchema, ArtifactListSchema,
+    ChatHistorySchema, ExtConfigSchema, SessionListSchema,
+    Project, ProjectFile, CompileResponse, VerifyResponse, ComputeMode, Artifact, ChatMessage, ExtConfig, SessionSummary
+} from './api-types';
+
+export interface CompileRequest {
+    filePath: string;
+    content: string;
+    /** Build target from the folder's `.reflexible.json`; the server default when absent */
+    target?: string;
+}
+
+export interface VerifyRequest extends CompileRequest {
+    checkLevel: string;
+}
+
+/** Editor context sent along with a chat message */
+export interface ContextAttachment {
+    kind: 'file' | 'selection' | 'diagnostics' | 'workspace';
+    /** Workspace-relative path, absent for `workspace` */
+    path?: string;
+    language?: string;
+    /** 1-based inclusive line range, for `selection` */
+    startLine?: number;
+    endLine?: number;
+    content: string;
+    /** Content was cut to the size limit */
+    truncated?: boolean;
+}
+
+export interface DispatchRequest {
+    projectId: string;
+    message: string;
+    computeConfig: ComputeMode | string;
+    context?: ContextAttachment[];
+}
+
+export interface FileListQuery {
+    cursor?: string;
+    limit?: number;
+}
+
+/** Result of a request sent with `If-None-Match` */
+export interface Conditional<T> {
+    /** Absent when the server answered 304 Not Modified */
+    data?: T;
+    etag?: string;
+}
+
+export interface FileListPage {
+    files: ProjectFile[];
+    nextCursor?: string;
+}
+
+export interface ChatHistoryQuery {
+    before?: string;
+    limit?: number;
+    sessionId?: string;
+}
+
+export interface ChatHistoryPage {
+    messages: ChatMessage[];
+    hasMore: boolean;
+    /** Pass as `before` to fetch the previous page */
+    cursor?: string;
+}
+
+/**
+ * Typed access to the Reflexible API. Responses are validated at runtime and
+ * failures surface as the error classes in errors.ts.
+ */
+export class ReflexibleClient {
+    private static instances = new WeakMap<vscode.ExtensionContext, ReflexibleClient>();
+
+    static for(context: vscode.ExtensionContext): ReflexibleClient {
+        let client = ReflexibleClient.instances.get(context);
+        if (!client) {
+            client = new ReflexibleClient(context);
+            ReflexibleClient.instances.set(context, client);
+        }
+        return client;
+    }
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    // Projects
+
+    async listProjects(): Promise<Project[]> {
+        return (await this.request('/api/projects', { method: 'GET' }, ProjectListSchema)).projects;
+    }
+
+    /** Project list, or nothing new if it still matches `etag`. */
+    async listProjectsIfChanged(etag?: string): Promise<Conditional<Project[]>> {
+        const result = await this.conditionalRequest('/api/projects', ProjectListSchema, etag);
+        return { data: result.data?.projects, etag: result.etag };
+    }
+
+    async createProject(name: string): Promise<void> {
+        await apiFetch(this.context, '/api/projects', {
+            method: 'POST',
+            body: JSON.stringify({ name })
+        });
+    }
+
+    async renameProject(projectId: string, name: string): Promise<void> {
+        await apiFetch(this.context, `/api/projects/${projectId}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ name })
+        });
+    }
+
+    async deleteProject(projectId: string): Promise<void> {
+        await apiFetch(this.context, `/api/projects/${projectId}`, { method: 'DELETE' });
+    }
+
+    async createEphemeralProject(name: string): Promise<Project> {
+        return (await this.request('/api/v1/projects/ephemeral', {
+            method: 'POST',
+            body: JSON.stringify({ name })
+        }, ProjectResponseSchema)).project;
+    }
+
+    async cleanupProject(projectId: string): Promise<void> {
+        await apiFetch(this.context, `/api/v1/projects/${projectId}/cleanup`, { method: 'DELETE' });
+    }
+
+    // Files
+
+    /** All files of a project, following the pages of large listings. */
+    async listFiles(projectId: string): Promise<ProjectFile[]> {
+        const files: ProjectFile[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = (await this.listFilesPage(projectId, { cursor })).data!;
+            files.push(...page.files);
+            cursor = page.nextCursor;
+        } while (cursor);
+        return files;
+    }
+
+    /**
+     * One page of a project's files. With `etag` (only meaningful for the
+     * first page) the server answers 304 if the listing has not changed.
+     */
+    async listFilesPage(projectId: string, query: FileListQuery = {}, etag?: string): Promise<Conditional<FileListPage>> {
+        const params = new URLSearchParams();
+        if (query.cursor) params.set('cursor', query.cursor);
+        if (query.limit) params.set('limit', String(query.limit));
+        const qs = params.toString();
+        const result = await this.conditionalRequest(`/api/v1/projects/${projectId}/files${qs ? '?' + qs : ''}`, FileListSchema, etag);
+        return {
+            data: result.data && { files: result.data.files, nextCursor: result.data.nextCursor },
+            etag: result.etag
+        };
+    }
+
+    async renameFile(projectId: string, fileId: string, newPath: string): Promise<void> {
+        await apiFetch(this.context, `/api/v1/projects/${projectId}/files/${fileId}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ newPath })
+        });
+    }
+
+    async deleteFile(projectId: string, fileId: string): Promise<void> {
+        await apiFetch(this.context, `/api/v1/projects/${projectId}/files/${fileId}`, { method: 'DELETE' });
+    }
+
+    /**
+     * Creates or overwrites a file. Bytes that are not UTF-8 text are sent
+     * base64-encoded. With `ifMatch` the server rejects the write with a
+     * `ConflictError` if the file's ETag has changed. Resolves with the ETag
+     * of the saved version when the server sends one.
+     */
+    async saveFile(projectId: string, path: string, content: string | Uint8Array, ifMatch?: string): Promise<string | undefined> {
+        let body: { path: string, content: string, encoding?: string };
+        if (typeof content === 'string') {
+            body = { path, content };
+        } else {
+            const text = Buffer.from(content).toString('utf-8');
+            body = !content.includes(0) && Buffer.from(text, 'utf-8').equals(content)
+                ? { path, content: text }
+                : { path, content: Buffer.from(content).toString('base64'), encoding: 'base64' };
+        }
+        const res = await apiFetch(this.context, `/api/projects/${projectId}/files`, {
+            method: 'POST',
+            body: JSON.stringify(body),
+            headers: ifMatch ? { 'if-match': ifMatch } : undefined
+        });
+        return res.headers.get('etag') ?? undefined;
+    }
+
+    async uploadFiles(projectId: string, files: { path: string, content: string }[]): Promise<number> {
+        const data = await this.request(`/api/v1/projects/${projectId}/files/upload-batch`, {
+            method: 'POST',
+            body: JSON.stringify({ files })
+        }, UploadBatchSchema);
+        return data.filesUploaded || 0;
+    }
+
+    /** Downloads a project file. The API redirects to storage, which is fetched without our API key. */
+    async downloadFile(projectId: string, path: string): Promise<Uint8Array> {
+        const endpoint = `/api/projects/${projectId}/files/download?path=${encodeURIComponent(path)}`;
+        const res = await apiFetch(this.context, endpoint, { method: 'GET' });
+        const { fetch } = await import('./fetch-polyfill');
+        const contentRes = await fetch(res.url);
+        if (!contentRes.ok) {
+            throw new ServerError(`Download failed (${contentRes.status})`, contentRes.status, endpoint);
+        }
+        return new Uint8Array(await contentRes.arrayBuffer());
+    }
+
+    // RFX
+
+    async compile(projectId: string, request: CompileRequest, signal?: AbortSignal): Promise<CompileResponse> {
+        return this.request(`/api/v1/projects/${projectId}/rfx/compile`, {
+            method: 'POST',
+            body: JSON.stringify(request),
+            signal
+        }, CompileResponseSchema);
+    }
+
+    async verify(projectId: string, request: VerifyRequest, signal?: AbortSignal): Promise<VerifyResponse> {
+        return this.request(`/api/v1/projects/${projectId}/rfx/verify`, {
+            method: 'POST',
+            body: JSON.stringify(request),
+            signal
+        }, VerifyResponseSchema);
+    }
+
+    // Agent sessions
+
+    async dispatch(request: DispatchRequest): Promise<string> {
+        return (await this.request('/api/v1/agent/dispatch', {
+            method: 'POST',
+            body: JSON.stringify(request)
+        }, DispatchResponseSchema)).sessionId;
+    }
+
+    async stop(sessionId: string): Promise<void> {
+        await apiFetch(this.context, '/api/v1/agent/stop', {
+            method: 'POST',
+            body: JSON.stringify({ sessionId })
+        });
+    }
+
+    async getArtifacts(sessionId: string): Promise<Artifact[]> {
+        return (await this.request(`/api/v1/sessions/${sessionId}/artifacts`, { method: 'GET' }, ArtifactListSchema)).artifacts || [];
+    }
+
+    /**
+     * Resolves an artifact's bytes from its inline content or signed URL and
+     * checks them against the announced size and SHA-256.
+     */
+    async fetchArtifact(sessionId: string, artifact: Artifact): Promise<Uint8Array> {
+        const endpoint = `/api/v1/sessions/${sessionId}/artifacts`;
+        let data: Uint8Array;
+        if (artifact.url) {
+            // Signed storage URLs must not get our API key; relative ones are API paths
+            const res = artifact.url.startsWith('/')
+                ? await apiFetch(this.context, artifact.url, { method: 'GET' }, { idempotent: true })
+                : await (await import('./fetch-polyfill')).fetch(artifact.url);
+            if (!res.ok) {
+                throw new ServerError(`Download of ${artifact.path} failed (${res.status})`, res.status, endpoint);
+            }
+            data = new Uint8Array(await res.arrayBuffer());
+        } else if (artifact.content !== undefined) {
+            data = artifact.encoding === 'base64'
+                ? Buffer.from(artifact.content, 'base64')
+                : Buffer.from(artifact.content, 'utf-8');
+        } else {
+            throw new SchemaError(endpoint, `artifacts[${artifact.path}]`, 'content or url', undefined);
+        }
+
+        if (artifact.size !== undefined && artifact.size !== data.length) {
+            throw new IntegrityError(endpoint, artifact.path, `expected ${artifact.size} bytes, got ${data.length}`);
+        }
+        if (artifact.sha256) {
+            const actual = crypto.createHash('sha256').update(data).digest('hex');
+            if (actual !== artifact.sha256.toLowerCase()) {
+                throw new IntegrityError(endpoint, artifact.path, `SHA-256 mismatch (expected ${artifact.sha256}, got ${actual})`);
+            }
+        }
+        return data;
+    }
+
+    /**
+     * One page of chat history, newest last. Pass the previous page's
+     * `cursor` as `before` to page backwards.
+     */
+    async getChatHistory(projectId: string, options: ChatHistoryQuery = {}): Promise<ChatHistoryPage> {
+        const params = new URLSearchParams();
+        if (options.before) params.set('before', options.before);
+        if (options.limit) params.set('limit', String(options.limit));
+        if (options.sessionId) params.set('sessionId', options.sessionId);
+        const query = params.toString();
+        const data = await this.request(
+            `/api/projects/${projectId}/chat-history${query ? `?${query}` : ''}`,
+            { method: 'GET' },
+            ChatHistorySchema
+        );
+        const messages = data.messages || [];
+        return {
+            messages,
+            hasMore: !!data.hasMore && messages.length > 0,
+            cursor: data.nextCursor || messages[0]?.createdAt
+        };
+    }
+
+    async listSessions(projectId: string): Promise<SessionSummary[]> {
+        return (await this.request(`/api/v1/projects/${projectId}/sessions`, { method: 'GET' }, SessionListSchema)).sessions || [];
+    }
+
+    /**
+     * Opens the raw server-sent event stream for a session, resuming after
+     * `lastEventId` when given. Status handling is left to the SSE client.
+     */
+    async openEventStream(sessionId: string, signal?: AbortSignal, lastEventId?: string): Promise<Response> {
+        const apiKey = await getApiKey(this.context);
+        if (!apiKey) throw new AuthError('Not authenticated', 401, '/api/v1/sse');
+        const { fetch } = await import('./fetch-polyfill');
+        const url = `${Config.baseUrl}/api/v1/sse?session_id=${encodeURIComponent(sessionId)}`;
+        const headers: Record<string, string> = {
+            'x-api-key': apiKey,
+            'accept': 'text/event-stream',
+            'cache-control': 'no-cache'
+        };
+        if (lastEventId) headers['last-event-id'] = lastEventId;
+        return fetch(url, { headers, signal });
+    }
+
+    // Extension config
+
+    async getExtConfig(): Promise<ExtConfig> {
+        return this.request('/api/ext/config', { method: 'GET' }, ExtConfigSchema);
+    }
+
+    private async conditionalRequest<T>(path: string, schema: Schema<T>, etag?: string): Promise<Conditional<T>> {
+        const res = await apiFetch(this.context, path, {
+            method: 'GET',
+            headers: etag ? { 'if-none-match': etag } : undefined
+        });
+        const newEtag = res.headers.get('etag') ?? undefined;
+        if (res.status === 304) {
+            await res.text().catch(() => '');
+            return { etag: newEtag ?? etag };
+        }
+        return { data: await this.parse(path, res, schema), etag: newEtag };
+    }
+
+    private async request<T>(path: string, init: RequestInit, schema: Schema<T>, options?: ApiFetchOptions): Promise<T> {
+        const res = await apiFetch(this.context, path, init, options);
+        return this.parse(path, res, schema);
+    }
+
+    private async parse<T>(path: string, res: Response, schema: Schema<T>): Promise<T> {
+        let body: unknown;
+        try {
+            body = await res.json();
+        } catch (e: any) {
+            if (e?.name === 'AbortError') throw e;
+            throw new SchemaError(path, '', 'JSON body', undefined);
+        }
+        try {
+            return schema.parse(body);
+        } catch (e) {
+            if (e instanceof SchemaIssue) {
+                throw new SchemaError(path, e.path, e.expected, e.received);
+            }
+            throw e;
+        }
+    }
+}
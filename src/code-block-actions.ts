@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EditorTracker } from './editor-tracker';
+
+export const PROPOSAL_SCHEME = 'reflexible-proposal';
+
+const LANGUAGE_IDS: Record<string, string> = {
+    rfx: 'rfx',
+    reflex: 'rfx',
+    c: 'c',
+    h: 'c',
+    cpp: 'cpp',
+    'c++': 'cpp',
+    hpp: 'cpp',
+    js: 'javascript',
+    ts: 'typescript',
+    py: 'python',
+    sh: 'shellscript',
+    bash: 'shellscript'
+};
+
+/**
+ * Carries out the actions on code blocks in the chat: copy, insert at the
+ * cursor, open as a new file, or show as a diff against the current file and
+ * apply on confirmation.
+ */
+export class CodeBlockActions implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly proposals = new Map<string, string>();
+    private proposalCount = 0;
+    private readonly disposables: vscode.Disposable[];
+
+    constructor(
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly editors: EditorTracker
+    ) {
+        this.disposables = [
+            vscode.workspace.registerTextDocumentContentProvider(PROPOSAL_SCHEME, this)
+        ];
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.proposals.get(uri.toString()) ?? '';
+    }
+
+    async run(action: string, code: string, language: string): Promise<void> {
+        try {
+            switch (action) {
+                case 'copy':
+                    await vscode.env.clipboard.writeText(code);
+                    vscode.window.setStatusBarMessage('$(check) Code copied to clipboard', 3000);
+                    break;
+                case 'insert':
+                    await this.insertAtCursor(code);
+                    break;
+                case 'newFile':
+                    await this.createFile(code, language);
+                    break;
+                case 'applyDiff':
+                    await this.applyAsDiff(code, language);
+                    break;
+                default:
+                    this.outputChannel.appendLine(`Unknown code block action: ${action}`);
+            }
+        } catch (e: any) {
+            this.outputChannel.appendLine(`Code block action '${action}' failed: ${e.message}`);
+            vscode.window.showErrorMessage(`Reflexible: ${e.message}`);
+        }
+    }
+
+    private async insertAtCursor(code: string) {
+        const editor = await this.editors.editor();
+        if (!editor) {
+            vscode.window.showWarningMessage('Open a file to insert the code into');
+            return;
+        }
+        await editor.edit(builder => {
+            for (const selection of editor.selections) {
+                builder.replace(selection, code);
+            }
+        });
+        await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+    }
+
+    private async createFile(code: string, language: string) {
+        const doc = await vscode.workspace.openTextDocument({
+            language: LANGUAGE_IDS[language] || language || 'plaintext',
+            content: code
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+    }
+
+    private async applyAsDiff(code: string, language: string) {
+        const editor = await this.editors.editor();
+        if (!editor) {
+            vscode.window.showWarningMessage('Open the file the change should be applied to');
+            return;
+        }
+        const doc = editor.document;
+        const name = path.basename(doc.fileName);
+        const version = doc.version;
+
+        let proposed: string | undefined = code;
+        if (language === 'diff' || language === 'patch' || /^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/m.test(code)) {
+            proposed = applyUnifiedDiff(doc.getText(), code);
+            if (proposed === undefined) {
+                vscode.window.showErrorMessage(`The suggested diff does not apply to ${name}`);
+                return;
+            }
+        } else if (doc.eol === vscode.EndOfLine.CRLF) {
+            proposed = code.replace(/\r?\n/g, '\r\n');
+        }
+
+        const proposalUri = vscode.Uri.from({
+            scheme: PROPOSAL_SCHEME,
+            path: '/' + name,
+            query: String(++this.proposalCount)
+        });
+        this.proposals.set(proposalUri.toString(), proposed);
+
+        try {
+            await vscode.commands.executeCommand('vscode.diff', doc.uri, proposalUri, `${name} ↔ Reflexible suggestion`);
+            const choice = await vscode.window.showInformationMessage(
+                `Apply the suggested changes to ${name}?`,
+                'Apply',
+                'Discard'
+            );
+            if (choice !== 'Apply') return;
+
+            if (doc.isClosed || doc.version !== version) {
+                vscode.window.showWarningMessage(`${name} changed while the diff was open - changes not applied`);
+                return;
+            }
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(doc.uri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), proposed);
+            if (await vscode.workspace.applyEdit(edit)) {
+                this.outputChannel.appendLine(`Applied suggested changes to ${doc.uri.fsPath}`);
+                await vscode.window.showTextDocument(doc, editor.viewColumn);
+            }
+        } finally {
+            this.proposals.delete(proposalUri.toString());
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.proposals.clear();
+    }
+}
+
+/**
+ * Applies the hunks of a unified diff to `original`. Hunks are located by
+ * their context and removed lines, searching outward from the line numbers
+ * in the header since assistant diffs are often slightly off. Returns
+ * undefined if any hunk cannot be found.
+ */
+export function applyUnifiedDiff(original: string, patch: string): string | undefined {
+    const eol = original.includes('\r\n') ? '\r\n' : '\n';
+    const lines = original.split(/\r?\n/);
+    const patchLines = patch.split(/\r?\n/);
+    let shift = 0;
+    let applied = 0;
+
+    for (let i = 0; i < patchLines.length; i++) {
+        const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(patchLines[i]);
+        if (!header) continue;
+
+        const before: string[] = [];
+        const after: string[] = [];
+        for (i++; i < patchLines.length && !patchLines[i].startsWith('@@'); i++) {
+            const line = patchLines[i];
+            if (line.startsWith('---') || line.startsWith('+++') || line.startsWith('\\')) continue;
+            const marker = line[0];
+            const content = line.slice(1);
+            if (marker === '-' || marker === ' ' || line === '') before.push(content);
+            if (marker === '+' || marker === ' ' || line === '') after.push(content);
+        }
+        i--;
+
+        // Trailing blank lines of the patch text are not part of the hunk
+        while (before.length > 0 && after.length > 0 && before[before.length - 1] === '' && after[after.length - 1] === '') {
+            before.pop();
+            after.pop();
+        }
+
+        const expected = Math.max(0, Number(header[1]) - 1 + shift);
+        const at = findLines(lines, before, expected);
+        if (at === -1) return undefined;
+        lines.splice(at, before.length, ...after);
+        shift += after.length - before.length;
+        applied++;
+    }
+
+    return applied > 0 ? lines.join(eol) : undefined;
+}
+
+function findLines(lines: string[], block: string[], near: number): number {
+    const matchesAt = (start: number) => block.every((line, k) => lines[start + k] === line);
+    const last = lines.length - block.length;
+    for (let distance = 0; distance <= lines.length; distance++) {
+        for (const start of [near - distance, near + distance]) {
+            if (start >= 0 && start <= last && matchesAt(start)) return start;
+        }
+    }
+    return -1;
+}
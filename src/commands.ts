@@ -1,72 +1,155 @@
 import * as vscode from 'vscode';
-import { apiFetch, ensureApiKey } from './api';
-import { getEphemeralProject } from './project-manager';
-import { uploadWorkspaceFiles } from './file-manager';
+import { ensureApiKey } from './api';
+import { ReflexibleClient } from './client';
+import { resolveProject, resetEphemeralProjects } from './project-manager';
+import { ProjectBindings } from './project-binding';
+import { uploadWorkspaceFiles, UploadResult } from './file-manager';
+import { localFolders } from './workspace-folders';
+import { RfxDiagnostics, CompileMessage } from './diagnostics';
+import { showApiError } from './errors';
+import { Config } from './config';
 
-export async function compileCurrentFile(
-    context: vscode.ExtensionContext, 
-    outputChannel: vscode.OutputChannel
-): Promise<void> {
-    // Check workspace folder
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-        vscode.window.showErrorMessage(
-            'Please open a folder in your workspace. Compiled files will be saved there.',
-            'Open Folder'
-        ).then(selection => {
-            if (selection === 'Open Folder') {
-                vscode.commands.executeCommand('vscode.openFolder');
-            }
-        });
-        return;
+export interface RunOptions {
+    signal?: AbortSignal;
+    progress?: vscode.Progress<{ message?: string }>;
+}
+
+export interface RunResult {
+    success: boolean;
+    /** Verify status, or 'passed'/'failed' for compiles */
+    status: string;
+    problemCount: number;
+}
+
+/**
+ * Compiles `doc` and records the result in the Output channel and Problems
+ * panel without any UI popups. Throws on request failure or abort.
+ */
+export async function compileDocument(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    diagnostics: RfxDiagnostics,
+    doc: vscode.TextDocument,
+    options: RunOptions = {}
+): Promise<RunResult> {
+    // Bound project, or get or create ephemeral project
+    options.progress?.report({ message: 'Creating project...' });
+    const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    const binding = await ProjectBindings.get().forFolder(folder);
+    const projectId = await resolveProject(context, folder);
+    
+    // Compile
+    options.progress?.report({ message: 'Compiling...' });
+    const version = doc.version;
+    const content = doc.getText();
+    const data = await ReflexibleClient.for(context).compile(projectId, {
+        filePath: vscode.workspace.asRelativePath(doc.uri, false),
+        content,
+        target: binding?.target
+    }, options.signal);
+    throwIfAborted(options.signal);
+    
+    // Skip diagnostics if the document was edited while compiling - lines may have moved
+    if (doc.version === version) {
+        diagnostics.setCompileResults(doc, data.errors || [], data.result?.warnings || []);
     }
     
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) { 
-        vscode.window.showErrorMessage('No active editor'); 
-        return; 
+    outputChannel.appendLine('='.repeat(60));
+    outputChannel.appendLine(`COMPILATION RESULT: ${vscode.workspace.asRelativePath(doc.uri)}`);
+    outputChannel.appendLine(data.result?.output || 'Compilation completed');
+    if (data.result?.warnings && data.result.warnings.length > 0) {
+        outputChannel.appendLine('\nWarnings:');
+        data.result.warnings.forEach(w => outputChannel.appendLine(`  - ${formatMessage(w)}`));
     }
-    const doc = editor.document;
-    if (!doc.fileName.endsWith('.rfx')) { 
-        vscode.window.showErrorMessage('Select a .rfx file'); 
-        return; 
+    if (data.errors && data.errors.length > 0) {
+        outputChannel.appendLine('\nErrors:');
+        data.errors.forEach(e => outputChannel.appendLine(`  ❌ ${formatMessage(e)}`));
+    }
+    outputChannel.appendLine('='.repeat(60));
+    
+    return {
+        success: data.success,
+        status: data.success ? 'passed' : 'failed',
+        problemCount: (data.errors?.length || 0) + (data.result?.warnings?.length || 0)
+    };
+}
+
+/**
+ * Verifies `doc` and records the result in the Output channel and Problems
+ * panel without any UI popups. Throws on request failure or abort.
+ */
+export async function verifyDocument(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    diagnostics: RfxDiagnostics,
+    doc: vscode.TextDocument,
+    options: RunOptions = {}
+): Promise<RunResult> {
+    // Bound project, or get or create ephemeral project
+    options.progress?.report({ message: 'Creating project...' });
+    const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    const binding = await ProjectBindings.get().forFolder(folder);
+    const projectId = await resolveProject(context, folder);
+    
+    // Verify
+    options.progress?.report({ message: 'Verifying...' });
+    const version = doc.version;
+    const content = doc.getText();
+    const data = await ReflexibleClient.for(context).verify(projectId, { 
+        filePath: vscode.workspace.asRelativePath(doc.uri, false), 
+        content, 
+        target: binding?.target,
+        checkLevel: binding?.verifyCheckLevel ?? 'standard' 
+    }, options.signal);
+    throwIfAborted(options.signal);
+    
+    if (doc.version === version) {
+        diagnostics.setVerifyResults(doc, data.result?.issues || [], data.result?.warnings || [], data.result?.status);
+    }
+    
+    outputChannel.appendLine('='.repeat(60));
+    outputChannel.appendLine(`VERIFICATION RESULT: ${vscode.workspace.asRelativePath(doc.uri)}`);
+    outputChannel.appendLine(`Status: ${data.result?.status || 'Unknown'}`);
+    if (data.result?.issues && data.result.issues.length > 0) {
+        outputChannel.appendLine('\nIssues:');
+        data.result.issues.forEach(issue => {
+            const rule = issue.rule || issue.check;
+            outputChannel.appendLine(`  [${issue.severity}] Line ${issue.line}: ${issue.message}${rule ? ` (${rule})` : ''}`);
+        });
     }
+    if (data.result?.warnings && data.result.warnings.length > 0) {
+        outputChannel.appendLine('\nWarnings:');
+        data.result.warnings.forEach(w => outputChannel.appendLine(`  - ${w}`));
+    }
+    outputChannel.appendLine('='.repeat(60));
+    
+    return {
+        success: data.success && data.result?.status === 'passed',
+        status: data.result?.status || 'unknown',
+        problemCount: (data.result?.issues?.length || 0) + (data.result?.warnings?.length || 0)
+    };
+}
+
+export async function compileCurrentFile(
+    context: vscode.ExtensionContext, 
+    outputChannel: vscode.OutputChannel,
+    diagnostics: RfxDiagnostics
+): Promise<void> {
+    const doc = getActiveRfxDocument('Please open a folder in your workspace. Compiled files will be saved there.');
+    if (!doc) return;
     
     await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
         title: 'Compiling RFX file...',
-        cancellable: false
-    }, async (progress) => {
+        cancellable: true
+    }, async (progress, token) => {
+        const controller = new AbortController();
+        token.onCancellationRequested(() => controller.abort());
         try {
-            // Get or create ephemeral project
-            progress.report({ message: 'Creating project...' });
-            const projectId = await getEphemeralProject(context);
-            
-            // Compile
-            progress.report({ message: 'Compiling...' });
-            const content = doc.getText();
-            const body = { filePath: vscode.workspace.asRelativePath(doc.uri), content };
-            const res = await apiFetch(context, `/api/v1/projects/${projectId}/rfx/compile`, { 
-                method: 'POST', 
-                body: JSON.stringify(body) 
-            });
-            const data = await res.json() as any;
-            
-            outputChannel.appendLine('='.repeat(60));
-            outputChannel.appendLine('COMPILATION RESULT:');
-            outputChannel.appendLine(data?.result?.output || 'Compilation completed');
-            if (data?.result?.warnings && data.result.warnings.length > 0) {
-                outputChannel.appendLine('\nWarnings:');
-                data.result.warnings.forEach((w: string) => outputChannel.appendLine(`  - ${w}`));
-            }
-            if (data?.errors && data.errors.length > 0) {
-                outputChannel.appendLine('\nErrors:');
-                data.errors.forEach((e: string) => outputChannel.appendLine(`  ❌ ${e}`));
-            }
-            outputChannel.appendLine('='.repeat(60));
+            const result = await compileDocument(context, outputChannel, diagnostics, doc, { signal: controller.signal, progress });
             outputChannel.show();
             
-            if (data.success) {
+            if (result.success) {
                 vscode.window.showInformationMessage('✅ Compilation successful!', 'View Output')
                     .then(choice => {
                         if (choice === 'View Output') outputChannel.show();
@@ -78,82 +161,36 @@ export async function compileCurrentFile(
                     });
             }
         } catch (error: any) {
+            if (isAbortError(error)) {
+                outputChannel.appendLine('Compilation cancelled');
+                return;
+            }
             outputChannel.appendLine('ERROR: ' + error.message);
-            vscode.window.showErrorMessage('Compilation failed: ' + error.message);
+            showApiError(error, 'Compilation failed');
         }
     });
 }
 
 export async function verifyCurrentFile(
     context: vscode.ExtensionContext, 
-    outputChannel: vscode.OutputChannel
+    outputChannel: vscode.OutputChannel,
+    diagnostics: RfxDiagnostics
 ): Promise<void> {
-    // Check workspace folder
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-        vscode.window.showErrorMessage(
-            'Please open a folder in your workspace. Verification results will be saved there.',
-            'Open Folder'
-        ).then(selection => {
-            if (selection === 'Open Folder') {
-                vscode.commands.executeCommand('vscode.openFolder');
-            }
-        });
-        return;
-    }
-    
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) { 
-        vscode.window.showErrorMessage('No active editor'); 
-        return; 
-    }
-    const doc = editor.document;
-    if (!doc.fileName.endsWith('.rfx')) { 
-        vscode.window.showErrorMessage('Select a .rfx file'); 
-        return; 
-    }
+    const doc = getActiveRfxDocument('Please open a folder in your workspace. Verification results will be saved there.');
+    if (!doc) return;
     
     await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
         title: 'Verifying RFX file...',
-        cancellable: false
-    }, async (progress) => {
+        cancellable: true
+    }, async (progress, token) => {
+        const controller = new AbortController();
+        token.onCancellationRequested(() => controller.abort());
         try {
-            // Get or create ephemeral project
-            progress.report({ message: 'Creating project...' });
-            const projectId = await getEphemeralProject(context);
-            
-            // Verify
-            progress.report({ message: 'Verifying...' });
-            const content = doc.getText();
-            const body = { 
-                filePath: vscode.workspace.asRelativePath(doc.uri), 
-                content, 
-                checkLevel: 'standard' 
-            };
-            const res = await apiFetch(context, `/api/v1/projects/${projectId}/rfx/verify`, { 
-                method: 'POST', 
-                body: JSON.stringify(body) 
-            });
-            const data = await res.json() as any;
-            
-            outputChannel.appendLine('='.repeat(60));
-            outputChannel.appendLine('VERIFICATION RESULT:');
-            outputChannel.appendLine(`Status: ${data?.result?.status || 'Unknown'}`);
-            if (data?.result?.issues && data.result.issues.length > 0) {
-                outputChannel.appendLine('\nIssues:');
-                data.result.issues.forEach((issue: any) => {
-                    outputChannel.appendLine(`  [${issue.severity}] Line ${issue.line}: ${issue.message}`);
-                });
-            }
-            if (data?.result?.warnings && data.result.warnings.length > 0) {
-                outputChannel.appendLine('\nWarnings:');
-                data.result.warnings.forEach((w: string) => outputChannel.appendLine(`  - ${w}`));
-            }
-            outputChannel.appendLine('='.repeat(60));
+            const result = await verifyDocument(context, outputChannel, diagnostics, doc, { signal: controller.signal, progress });
             outputChannel.show();
             
-            if (data.success && data.result.status === 'passed') {
+            if (result.success) {
                 vscode.window.showInformationMessage('✅ Verification passed!', 'View Details')
                     .then(choice => {
                         if (choice === 'View Details') outputChannel.show();
@@ -165,12 +202,58 @@ export async function verifyCurrentFile(
                     });
             }
         } catch (error: any) {
+            if (isAbortError(error)) {
+                outputChannel.appendLine('Verification cancelled');
+                return;
+            }
             outputChannel.appendLine('ERROR: ' + error.message);
-            vscode.window.showErrorMessage('Verification failed: ' + error.message);
+            showApiError(error, 'Verification failed');
         }
     });
 }
 
+function getActiveRfxDocument(noWorkspaceMessage: string): vscode.TextDocument | undefined {
+    // Check workspace folder
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+        vscode.window.showErrorMessage(noWorkspaceMessage, 'Open Folder').then(selection => {
+            if (selection === 'Open Folder') {
+                vscode.commands.executeCommand('vscode.openFolder');
+            }
+        });
+        return undefined;
+    }
+    
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) { 
+        vscode.window.showErrorMessage('No active editor'); 
+        return undefined; 
+    }
+    const doc = editor.document;
+    if (doc.languageId !== 'rfx' && !doc.fileName.endsWith('.rfx')) { 
+        vscode.window.showErrorMessage('Select a .rfx file'); 
+        return undefined; 
+    }
+    return doc;
+}
+
+export function isAbortError(error: any): boolean {
+    return error?.name === 'AbortError';
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) {
+        const error = new Error('Request aborted');
+        error.name = 'AbortError';
+        throw error;
+    }
+}
+
+function formatMessage(message: CompileMessage): string {
+    if (typeof message === 'string') return message;
+    return message.line ? `Line ${message.line}: ${message.message}` : message.message;
+}
+
 export async function authenticateCommand(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel): Promise<void> {
     outputChannel.appendLine('Authenticate command triggered');
     await ensureApiKey(context).then(() => vscode.window.showInformationMessage('✅ Authenticated with Reflexible'));
@@ -192,8 +275,82 @@ export async function reconfigureApiKeyCommand(context: vscode.ExtensionContext,
 
 export async function newSessionCommand(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel): Promise<void> {
     outputChannel.appendLine('New session command triggered');
-    await context.workspaceState.update('ephemeralProjectId', undefined);
-    await context.workspaceState.update('currentSessionId', undefined);
+    await resetEphemeralProjects(context);
     vscode.window.showInformationMessage('🔄 New session started - previous context cleared');
 }
 
+
+/**
+ * Uploads new and changed workspace files to `projectId`. Without an active
+ * project each workspace folder goes to its own project: the one bound in its
+ * `.reflexible.json`, the `reflexible.projectId` setting, or its ephemeral
+ * session project.
+ */
+export async function uploadWorkspaceCommand(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    projectId?: string,
+    force = false
+): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage('Open a folder to upload its files');
+        return;
+    }
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Uploading workspace files',
+        cancellable: true
+    }, async (progress, token) => {
+        try {
+            const targets: { projectId: string, folder?: vscode.WorkspaceFolder }[] = [];
+            if (projectId) {
+                targets.push({ projectId, folder: (await ProjectBindings.get().findProject(projectId))?.folder });
+            } else {
+                for (const folder of localFolders()) {
+                    targets.push({ projectId: await resolveProject(context, folder), folder });
+                }
+            }
+
+            const result: UploadResult = { uploaded: 0, unchanged: 0, ignored: 0, tooLarge: [] };
+            for (const target of targets) {
+                if (token.isCancellationRequested) break;
+                const part = await uploadWorkspaceFiles(context, target.projectId, { force, progress, token, folder: target.folder });
+                outputChannel.appendLine(
+                    `Uploaded ${part.uploaded} file(s) ${target.folder ? `from ${target.folder.name} ` : ''}to project ${target.projectId} ` +
+                    `(${part.unchanged} unchanged, ${part.ignored} ignored, ${part.tooLarge.length} too large)`
+                );
+                result.uploaded += part.uploaded;
+                result.unchanged += part.unchanged;
+                result.ignored += part.ignored;
+                result.tooLarge.push(...part.tooLarge);
+            }
+
+            if (result.tooLarge.length > 0) {
+                result.tooLarge.forEach(path => outputChannel.appendLine(`Skipped (over reflexible.maxUploadFileSize): ${path}`));
+                vscode.window.showWarningMessage(
+                    `${result.tooLarge.length} file(s) are over the ${Config.maxUploadFileSize} KB upload limit and were skipped`,
+                    'Show Files'
+                ).then(choice => {
+                    if (choice === 'Show Files') outputChannel.show();
+                });
+            }
+
+            if (token.isCancellationRequested) {
+                vscode.window.showInformationMessage(`Upload cancelled after ${result.uploaded} file(s)`);
+            } else if (result.uploaded > 0) {
+                vscode.window.showInformationMessage(`✅ Uploaded ${result.uploaded} file(s)`);
+            } else if (result.unchanged > 0) {
+                vscode.window.showInformationMessage(`All ${result.unchanged} file(s) are up to date`, 'Upload All')
+                    .then(choice => {
+                        if (choice === 'Upload All') uploadWorkspaceCommand(context, outputChannel, projectId, true);
+                    });
+            } else {
+                vscode.window.showInformationMessage('No RFX or config files to upload');
+            }
+        } catch (error: any) {
+            outputChannel.appendLine('ERROR: ' + error.message);
+            showApiError(error, 'Upload failed');
+        }
+    });
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { DEFAULT_CATEGORIES, FileCategory, TreeSortOrder } from './file-categories';
 
 export class Config {
     static get baseUrl(): string {
@@ -11,5 +12,56 @@ export class Config {
     static get projectId(): string | undefined {
         return vscode.workspace.getConfiguration('reflexible').get<string>('projectId');
     }
+    
+    static get compileOnSave(): boolean {
+        return vscode.workspace.getConfiguration('reflexible').get<boolean>('compileOnSave', false);
+    }
+    
+    static get verifyOnSave(): boolean {
+        return vscode.workspace.getConfiguration('reflexible').get<boolean>('verifyOnSave', false);
+    }
+    
+    static get onSaveDelay(): number {
+        return vscode.workspace.getConfiguration('reflexible').get<number>('onSaveDelay', 750);
+    }
+    
+    static get maxRetries(): number {
+        return Math.max(0, vscode.workspace.getConfiguration('reflexible').get<number>('maxRetries', 3));
+    }
+    
+    static get retryBaseDelay(): number {
+        return Math.max(0, vscode.workspace.getConfiguration('reflexible').get<number>('retryBaseDelay', 500));
+    }
+    
+    static get maxUploadFileSize(): number {
+        return Math.max(1, vscode.workspace.getConfiguration('reflexible').get<number>('maxUploadFileSize', 1024));
+    }
+    
+    /** Output folder relative to `folder`; can differ per folder in a multi-root workspace. */
+    static outputDirectory(folder: vscode.WorkspaceFolder): string {
+        const value = vscode.workspace.getConfiguration('reflexible', folder).get<string>('outputDirectory', 'output').trim();
+        return value.replace(/^[\\/]+|[\\/]+$/g, '') || 'output';
+    }
+    
+    static get syncInterval(): number {
+        return Math.max(0, vscode.workspace.getConfiguration('reflexible').get<number>('syncInterval', 60));
+    }
+    
+    static get treeViewMode(): 'folders' | 'categories' {
+        return vscode.workspace.getConfiguration('reflexible').get<'folders' | 'categories'>('tree.viewMode', 'folders');
+    }
+    
+    static get treeSortBy(): TreeSortOrder {
+        return vscode.workspace.getConfiguration('reflexible').get<TreeSortOrder>('tree.sortBy', 'name');
+    }
+    
+    static get fileCategories(): FileCategory[] {
+        const categories = vscode.workspace.getConfiguration('reflexible').get<FileCategory[]>('tree.categories');
+        return Array.isArray(categories) && categories.length > 0 ? categories : DEFAULT_CATEGORIES;
+    }
+    
+    static get artifactDownload(): 'auto' | 'review' | 'never' {
+        return vscode.workspace.getConfiguration('reflexible').get<'auto' | 'review' | 'never'>('artifactDownload', 'review');
+    }
 }
 
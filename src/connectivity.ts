@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { fetch } from './fetch-polyfill';
+import { Config } from './config';
+
+const MIN_PROBE_INTERVAL = 5000;
+const MAX_PROBE_INTERVAL = 120000;
+const PROBE_TIMEOUT = 10000;
+
+/**
+ * Tracks whether the Reflexible server is reachable. `apiFetch` reports
+ * network failures and successes; while offline the server is probed with
+ * growing intervals until it answers again.
+ */
+export class ConnectivityMonitor implements vscode.Disposable {
+    private static instance: ConnectivityMonitor | undefined;
+
+    static get(): ConnectivityMonitor {
+        if (!ConnectivityMonitor.instance) {
+            ConnectivityMonitor.instance = new ConnectivityMonitor();
+        }
+        return ConnectivityMonitor.instance;
+    }
+
+    private readonly _onDidChange = new vscode.EventEmitter<boolean>();
+    /** Fires `true` when the server becomes reachable again, `false` when it goes away */
+    readonly onDidChange = this._onDidChange.event;
+
+    private online = true;
+    private probeTimer: NodeJS.Timeout | undefined;
+    private probeInterval = MIN_PROBE_INTERVAL;
+
+    get isOnline(): boolean {
+        return this.online;
+    }
+
+    reportSuccess(): void {
+        this.setOnline(true);
+    }
+
+    reportFailure(): void {
+        this.setOnline(false);
+    }
+
+    private setOnline(online: boolean): void {
+        if (online === this.online) return;
+        this.online = online;
+        if (online) {
+            this.stopProbing();
+        } else {
+            this.probeInterval = MIN_PROBE_INTERVAL;
+            this.scheduleProbe();
+        }
+        this._onDidChange.fire(online);
+    }
+
+    /** Probes immediately, e.g. when the user clicks the offline indicator. */
+    async checkNow(): Promise<boolean> {
+        this.stopProbing();
+        const reachable = await this.probe();
+        if (reachable) {
+            this.setOnline(true);
+        } else if (!this.online) {
+            this.scheduleProbe();
+        }
+        return reachable;
+    }
+
+    private scheduleProbe(): void {
+        this.stopProbing();
+        this.probeTimer = setTimeout(async () => {
+            this.probeTimer = undefined;
+            if (await this.probe()) {
+                this.setOnline(true);
+            } else {
+                this.probeInterval = Math.min(this.probeInterval * 2, MAX_PROBE_INTERVAL);
+                this.scheduleProbe();
+            }
+        }, this.probeInterval);
+    }
+
+    private stopProbing(): void {
+        if (this.probeTimer) {
+            clearTimeout(this.probeTimer);
+            this.probeTimer = undefined;
+        }
+    }
+
+    /** Any HTTP answer below 500 counts as reachable; no API key is sent. */
+    private async probe(): Promise<boolean> {
+        try {
+            const res = await fetch(Config.baseUrl, { method: 'HEAD', signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+            return res.status < 500;
+        } catch {
+            return false;
+        }
+    }
+
+    dispose(): void {
+        this.stopProbing();
+        this._onDidChange.dispose();
+        ConnectivityMonitor.instance = undefined;
+    }
+}
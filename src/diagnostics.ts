@@ -0,0 +1,213 @@
+import * as vscode from 'vscode';
+
+export interface VerifyIssue {
+    severity?: string;
+    line?: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+    message: string;
+    rule?: string;
+    check?: string;
+    docsUrl?: string;
+}
+
+export type CompileMessage = string | {
+    line?: number;
+    column?: number;
+    message: string;
+    rule?: string;
+    code?: string;
+    docsUrl?: string;
+};
+
+type DiagnosticKind = 'compile' | 'verify';
+
+/**
+ * Owns the "reflexible" diagnostic collection. Compile and verify results are
+ * tracked separately per document so re-running one does not wipe the other.
+ */
+export class RfxDiagnostics implements vscode.Disposable {
+    private readonly collection: vscode.DiagnosticCollection;
+    private readonly entries = new Map<string, { uri: vscode.Uri, compile: vscode.Diagnostic[], verify: vscode.Diagnostic[], verifyStatus?: string }>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly _onDidChangeVerifyStatus = new vscode.EventEmitter<vscode.Uri>();
+    /** Fires when a document's verify outcome is recorded or goes stale */
+    readonly onDidChangeVerifyStatus = this._onDidChangeVerifyStatus.event;
+
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('reflexible');
+        this.disposables.push(
+            this.collection,
+            this._onDidChangeVerifyStatus,
+            // Results describe the text that was sent - any edit makes them stale
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.contentChanges.length > 0) this.clear(e.document.uri);
+            }),
+            vscode.workspace.onDidCloseTextDocument(doc => this.clear(doc.uri))
+        );
+    }
+
+    /** `status` is the server's overall verdict, e.g. 'passed' or 'failed'. */
+    setVerifyResults(document: vscode.TextDocument, issues: VerifyIssue[], warnings: string[] = [], status?: string): void {
+        const diagnostics = issues.map(issue => this.createDiagnostic(
+            document,
+            issue.line,
+            issue.column,
+            issue.message,
+            toSeverity(issue.severity),
+            'Reflexible verify',
+            issue.rule || issue.check,
+            issue.docsUrl,
+            issue.endLine,
+            issue.endColumn
+        ));
+        for (const warning of warnings) {
+            diagnostics.push(this.fromCompileMessage(document, warning, vscode.DiagnosticSeverity.Warning, 'Reflexible verify'));
+        }
+        this.set(document.uri, 'verify', diagnostics);
+        this.entries.get(document.uri.toString())!.verifyStatus = status;
+        this._onDidChangeVerifyStatus.fire(document.uri);
+    }
+
+    /** Outcome of the last verify of a document, while it still matches the text. */
+    verifyStatus(uri: vscode.Uri): string | undefined {
+        return this.entries.get(uri.toString())?.verifyStatus;
+    }
+
+    setCompileResults(document: vscode.TextDocument, errors: CompileMessage[] = [], warnings: CompileMessage[] = []): void {
+        const diagnostics = [
+            ...errors.map(e => this.fromCompileMessage(document, e, vscode.DiagnosticSeverity.Error, 'Reflexible compile')),
+            ...warnings.map(w => this.fromCompileMessage(document, w, vscode.DiagnosticSeverity.Warning, 'Reflexible compile'))
+        ];
+        this.set(document.uri, 'compile', diagnostics);
+    }
+
+    clear(uri: vscode.Uri): void {
+        const entry = this.entries.get(uri.toString());
+        if (entry) {
+            this.entries.delete(uri.toString());
+            this.collection.delete(uri);
+            if (entry.verifyStatus) this._onDidChangeVerifyStatus.fire(uri);
+        }
+    }
+
+    clearAll(): void {
+        const verified = [...this.entries.values()].filter(entry => entry.verifyStatus);
+        this.entries.clear();
+        this.collection.clear();
+        verified.forEach(entry => this._onDidChangeVerifyStatus.fire(entry.uri));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.entries.clear();
+    }
+
+    private set(uri: vscode.Uri, kind: DiagnosticKind, diagnostics: vscode.Diagnostic[]): void {
+        const key = uri.toString();
+        const entry = this.entries.get(key) || { uri, compile: [], verify: [] };
+        entry[kind] = diagnostics;
+        this.entries.set(key, entry);
+        this.collection.set(uri, [...entry.compile, ...entry.verify]);
+    }
+
+    private fromCompileMessage(
+        document: vscode.TextDocument,
+        message: CompileMessage,
+        severity: vscode.DiagnosticSeverity,
+        source: string
+    ): vscode.Diagnostic {
+        if (typeof message !== 'string') {
+            return this.createDiagnostic(document, message.line, message.column, message.message, severity, source, message.rule || message.code, message.docsUrl);
+        }
+        const location = parseLocation(message);
+        return this.createDiagnostic(document, location.line, location.column, location.message, severity, source);
+    }
+
+    private createDiagnostic(
+        document: vscode.TextDocument,
+        line: number | undefined,
+        column: number | undefined,
+        message: string,
+        severity: vscode.DiagnosticSeverity,
+        source: string,
+        rule?: string,
+        docsUrl?: string,
+        endLine?: number,
+        endColumn?: number
+    ): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(
+            toRange(document, line, column, endLine, endColumn),
+            message,
+            severity
+        );
+        diagnostic.source = source;
+        if (rule) {
+            // Only link to documentation the server says exists
+            diagnostic.code = docsUrl ? { value: rule, target: vscode.Uri.parse(docsUrl) } : rule;
+        }
+        return diagnostic;
+    }
+}
+
+function toSeverity(severity: string | undefined): vscode.DiagnosticSeverity {
+    switch ((severity || '').toLowerCase()) {
+        case 'error':
+        case 'critical':
+        case 'high':
+            return vscode.DiagnosticSeverity.Error;
+        case 'info':
+        case 'low':
+            return vscode.DiagnosticSeverity.Information;
+        case 'hint':
+            return vscode.DiagnosticSeverity.Hint;
+        default:
+            return vscode.DiagnosticSeverity.Warning;
+    }
+}
+
+/**
+ * Server lines are 1-based. Without a column the whole (trimmed) line is
+ * underlined; without a line the diagnostic is pinned to the top of the file.
+ */
+function toRange(
+    document: vscode.TextDocument,
+    line: number | undefined,
+    column: number | undefined,
+    endLine?: number,
+    endColumn?: number
+): vscode.Range {
+    if (!line || line < 1 || document.lineCount === 0) {
+        return new vscode.Range(0, 0, 0, 0);
+    }
+    const lineIndex = Math.min(line, document.lineCount) - 1;
+    const textLine = document.lineAt(lineIndex);
+
+    if (endLine && endLine >= line) {
+        const endIndex = Math.min(endLine, document.lineCount) - 1;
+        const start = column ? column - 1 : textLine.firstNonWhitespaceCharacterIndex;
+        const end = endColumn ? endColumn - 1 : document.lineAt(endIndex).range.end.character;
+        return new vscode.Range(lineIndex, start, endIndex, end);
+    }
+    if (column && column > 0) {
+        const start = Math.min(column - 1, textLine.range.end.character);
+        const wordRange = document.getWordRangeAtPosition(new vscode.Position(lineIndex, start));
+        return wordRange || new vscode.Range(lineIndex, start, lineIndex, textLine.range.end.character);
+    }
+    return new vscode.Range(lineIndex, textLine.firstNonWhitespaceCharacterIndex, lineIndex, textLine.range.end.character);
+}
+
+/** Pulls a location out of plain-text messages like "main.rfx:12:5: msg" or "Line 12: msg". */
+function parseLocation(text: string): { line?: number, column?: number, message: string } {
+    const prefixed = /^(?:[^\s:]+:)?(\d+)(?::(\d+))?:\s*(.*)$/s.exec(text);
+    if (prefixed) {
+        return { line: Number(prefixed[1]), column: prefixed[2] ? Number(prefixed[2]) : undefined, message: prefixed[3] || text };
+    }
+    const named = /\bline\s+(\d+)(?:\s*,?\s*col(?:umn)?\s+(\d+))?\s*:?\s*/i.exec(text);
+    if (named) {
+        const message = (text.slice(0, named.index) + text.slice(named.index + named[0].length)).trim();
+        return { line: Number(named[1]), column: named[2] ? Number(named[2]) : undefined, message: message || text };
+    }
+    return { message: text };
+}
@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+
+/**
+ * Remembers the text editor the user last worked in. Focusing the chat
+ * webview clears `activeTextEditor`, so chat features that act on "the
+ * current file" ask this instead.
+ */
+export class EditorTracker implements vscode.Disposable {
+    private lastEditor: vscode.TextEditor | undefined;
+    private readonly subscription: vscode.Disposable;
+
+    /** Schemes of editors that are never the user's file, e.g. diff proposals */
+    constructor(private readonly ignoredSchemes: string[] = []) {
+        this.track(vscode.window.activeTextEditor);
+        this.subscription = vscode.window.onDidChangeActiveTextEditor(editor => this.track(editor));
+    }
+
+    /** The last editor, revealed again if its tab was hidden; undefined once closed */
+    async editor(): Promise<vscode.TextEditor | undefined> {
+        const editor = this.lastEditor;
+        if (!editor || editor.document.isClosed) return undefined;
+        // The editor object goes stale when its tab is hidden; reveal the document again
+        const visible = vscode.window.visibleTextEditors.find(e => e.document === editor.document);
+        return visible ?? vscode.window.showTextDocument(editor.document, { preview: false });
+    }
+
+    /** The last editor without revealing it, for reading its selection or path */
+    get current(): vscode.TextEditor | undefined {
+        const editor = this.lastEditor;
+        return editor && !editor.document.isClosed ? editor : undefined;
+    }
+
+    private track(editor: vscode.TextEditor | undefined) {
+        const scheme = editor?.document.uri.scheme;
+        // Output channels are editors too
+        if (editor && scheme !== 'output' && !this.ignoredSchemes.includes(scheme!)) {
+            this.lastEditor = editor;
+        }
+    }
+
+    dispose() {
+        this.subscription.dispose();
+    }
+}
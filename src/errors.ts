@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+
+/** Base class for every failure talking to the Reflexible API. */
+export class ReflexibleApiError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly endpoint: string,
+        public readonly responseText: string = ''
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+
+    get details(): string {
+        return `API Error [${this.status}]:\nEndpoint: ${this.endpoint}\nResponse: ${this.responseText}`;
+    }
+}
+
+/** Missing, invalid or expired API key (401/403). */
+export class AuthError extends ReflexibleApiError {}
+
+/** Out of credits or plan limit reached (402). */
+export class QuotaError extends ReflexibleApiError {}
+
+export class NotFoundError extends ReflexibleApiError {}
+
+/** The resource changed on the server since it was read (409/412). */
+export class ConflictError extends ReflexibleApiError {}
+
+/** 5xx responses. */
+export class ServerError extends ReflexibleApiError {}
+
+/** Too many requests (429), after any retries were used up. */
+export class RateLimitError extends ReflexibleApiError {
+    constructor(message: string, status: number, endpoint: string, responseText: string, public readonly retryAfterMs?: number) {
+        super(message, status, endpoint, responseText);
+    }
+}
+
+/** The request never got an HTTP response (DNS, connection refused, timeout). */
+export class NetworkError extends ReflexibleApiError {
+    constructor(endpoint: string, public readonly cause?: unknown) {
+        super(`Cannot reach Reflexible (${cause instanceof Error ? cause.message : 'network error'})`, 0, endpoint);
+    }
+}
+
+/** The server answered 2xx but the body does not have the shape we expect. */
+export class SchemaError extends ReflexibleApiError {
+    constructor(endpoint: string, public readonly path: string, expected: string, received: unknown) {
+        super(
+            `Unexpected response from ${endpoint}: expected ${expected} at ${path || '<root>'}, got ${describe(received)}`,
+            200,
+            endpoint,
+            safeStringify(received)
+        );
+    }
+}
+
+/** Downloaded content does not match the size or checksum the server announced. */
+export class IntegrityError extends ReflexibleApiError {
+    constructor(endpoint: string, public readonly path: string, problem: string) {
+        super(`${path}: ${problem}`, 200, endpoint);
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function safeStringify(value: unknown): string {
+    try {
+        return JSON.stringify(value)?.substring(0, 500) ?? '';
+    } catch {
+        return String(value);
+    }
+}
+
+/**
+ * Shows an error toast for a failed API call, with the follow-up action that
+ * fits the error type. Use from command handlers; background work should log.
+ */
+export function showApiError(error: unknown, prefix: string): void {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof AuthError) {
+        vscode.window.showErrorMessage(`${prefix}: ${message}`, 'Authenticate Now').then(selection => {
+            if (selection === 'Authenticate Now') {
+                vscode.commands.executeCommand('reflexible.authenticate');
+            }
+        });
+        return;
+    }
+
+    if (error instanceof QuotaError) {
+        vscode.window.showErrorMessage(`${prefix}: ${message}`, 'Manage Subscription').then(selection => {
+            if (selection === 'Manage Subscription') {
+                vscode.commands.executeCommand('reflexible.openSubscription');
+            }
+        });
+        return;
+    }
+
+    if (error instanceof ReflexibleApiError) {
+        vscode.window.showErrorMessage(`${prefix}: ${message.substring(0, 200)}`, 'View Details').then(selection => {
+            if (selection === 'View Details') {
+                vscode.window.showErrorMessage(error.details);
+            }
+        });
+        return;
+    }
+
+    vscode.window.showErrorMessage(`${prefix}: ${message}`);
+}
@@ -1,10 +1,28 @@
 import * as vscode from 'vscode';
 import { StatusBarManager } from './status-bar';
-import { compileCurrentFile, verifyCurrentFile, authenticateCommand, newSessionCommand } from './commands';
+import { compileCurrentFile, verifyCurrentFile, authenticateCommand, newSessionCommand, uploadWorkspaceCommand } from './commands';
 import { ChatPanelManager } from './chat-panel';
-import { ProjectTreeProvider } from './project-tree-provider';
-import { registerFileSyncProvider, openFile } from './file-sync';
-import { apiFetch } from './api';
+import { SessionManager } from './session-manager';
+import { ProjectTreeProvider, TreeNode } from './project-tree-provider';
+import { ProjectTreeDragAndDrop } from './tree-drag-and-drop';
+import { SessionNode, SessionTreeProvider } from './session-tree-provider';
+import { registerFileSyncProvider, openFile, mountProject, remoteUri } from './file-sync';
+import { downloadArtifacts } from './file-manager';
+import { registerArtifactReviewProvider } from './artifact-review';
+import { FolderSync } from './folder-sync';
+import { SyncDecorationProvider } from './sync-decorations';
+import { folderForProject, folderForUri, outputDirectory } from './workspace-folders';
+import { BINDING_FILE, ProjectBindings } from './project-binding';
+import { ReflexibleClient } from './client';
+import { showApiError } from './errors';
+import { ProjectFile } from './api-types';
+import { Config } from './config';
+import { TreeSortOrder } from './file-categories';
+import { getApiKey } from './api';
+import { ConnectivityMonitor } from './connectivity';
+import { RfxDiagnostics } from './diagnostics';
+import { registerRfxLanguageFeatures } from './rfx-language-features';
+import { OnSaveRunner } from './on-save';
 
 export function activate(context: vscode.ExtensionContext) {
     const outputChannel = vscode.window.createOutputChannel('Reflexible');
@@ -15,8 +33,36 @@ export function activate(context: vscode.ExtensionContext) {
     // Create status bar items
     const statusBar = new StatusBarManager(context);
     
+    // Problems panel entries for compile/verify results
+    const diagnostics = new RfxDiagnostics();
+    context.subscriptions.push(diagnostics);
+    
+    // Folder-to-project bindings from .reflexible.json
+    context.subscriptions.push(ProjectBindings.get());
+    
+    // Opt-in compile/verify when .rfx files are saved
+    context.subscriptions.push(new OnSaveRunner(context, outputChannel, diagnostics, statusBar));
+    
+    // Agent sessions run here, independently of any chat panel
+    const sessionManager = new SessionManager(context, outputChannel);
+    context.subscriptions.push(
+        sessionManager,
+        sessionManager.onDidChangeSessions(count => statusBar.updateRunningSessions(count))
+    );
+    
     // Create chat panel manager
-    const chatManager = new ChatPanelManager(context, outputChannel);
+    const chatManager = new ChatPanelManager(context, outputChannel, sessionManager);
+    
+    // Two-way mirror between a local folder and a project
+    const folderSync = new FolderSync(context, outputChannel, statusBar);
+    context.subscriptions.push(folderSync);
+    
+    // Sync, verify and generated-file badges
+    const decorations = new SyncDecorationProvider(diagnostics, folderSync);
+    context.subscriptions.push(
+        decorations,
+        sessionManager.onDidGenerateFiles(uris => decorations.setGenerated(uris))
+    );
     
     // Create project tree
     const projectTree = new ProjectTreeProvider(
@@ -25,18 +71,41 @@ export function activate(context: vscode.ExtensionContext) {
         (projectId, projectName) => {
             chatManager.showForProject(projectId, projectName);
             projectTree.setActiveProject(projectId);
-        }
+        },
+        decorations
     );
     
+    // reflexible:// file system for opening and mounting project files
+    const remoteFs = registerFileSyncProvider(context, outputChannel);
+    
     const treeView = vscode.window.createTreeView('reflexible.projectTree', {
         treeDataProvider: projectTree,
         showCollapseAll: true,
-        canSelectMany: true // Enable multi-select
+        canSelectMany: true, // Enable multi-select
+        dragAndDropController: new ProjectTreeDragAndDrop(context, outputChannel, projectTree, remoteFs)
     });
     context.subscriptions.push(treeView);
     
-    // Register file sync provider
-    registerFileSyncProvider(context, outputChannel);
+    // Past and running agent sessions per project
+    const sessionTree = new SessionTreeProvider(context, outputChannel, projectTree, sessionManager);
+    context.subscriptions.push(vscode.window.createTreeView('reflexible.sessionTree', {
+        treeDataProvider: sessionTree,
+        showCollapseAll: true
+    }));
+    
+    const client = ReflexibleClient.for(context);
+    
+    context.subscriptions.push(
+        sessionManager.onDidCompleteSession(projectId => {
+            // Sessions write files into the project
+            projectTree.invalidate(projectId);
+            if (folderSync.linkedProjectId === projectId) folderSync.pull();
+        })
+    );
+    registerArtifactReviewProvider(context);
+    
+    // Offline outline, folding, symbols and go-to-definition
+    registerRfxLanguageFeatures(context);
     
     // State management
     let currentComputeMode: 'chat' | 'basic' | 'pro' = 'chat';
@@ -44,8 +113,7 @@ export function activate(context: vscode.ExtensionContext) {
     // Fetch and update config
     async function refreshConfig() {
         try {
-            const res = await apiFetch(context, '/api/ext/config', { method: 'GET' });
-            const config = await res.json() as any;
+            const config = await client.getExtConfig();
             
             if (config.credits) {
                 statusBar.updateCredits(config.credits.total, config.credits.promo);
@@ -59,8 +127,57 @@ export function activate(context: vscode.ExtensionContext) {
         }
     }
     
+    // Background polling is skipped while logged out or offline so a down server isn't hammered
+    async function pollConfig() {
+        if (!connectivity.isOnline) return;
+        if (!await getApiKey(context)) return;
+        await refreshConfig();
+    }
+    
+    // Single offline indicator; resume as soon as the server answers again
+    const connectivity = ConnectivityMonitor.get();
+    context.subscriptions.push(
+        connectivity,
+        connectivity.onDidChange(async online => {
+            statusBar.setOffline(!online);
+            if (!online) {
+                outputChannel.appendLine('Reflexible is unreachable - pausing background polling');
+                return;
+            }
+            outputChannel.appendLine('Reflexible is reachable again - resuming');
+            if (await getApiKey(context)) {
+                await refreshConfig();
+                await projectTree.loadProjects();
+            }
+        })
+    );
+    
     // Register commands
     context.subscriptions.push(
+        vscode.commands.registerCommand('reflexible.linkFolder', async (folder?: vscode.Uri) => {
+            await folderSync.promptLink(folder);
+        }),
+        vscode.commands.registerCommand('reflexible.unlinkFolder', async () => {
+            await folderSync.unlink();
+        }),
+        vscode.commands.registerCommand('reflexible.syncPush', async () => {
+            await folderSync.push(true);
+        }),
+        vscode.commands.registerCommand('reflexible.syncPull', async () => {
+            await folderSync.pull(true);
+        }),
+        vscode.commands.registerCommand('reflexible.resolveSyncConflicts', async () => {
+            await folderSync.resolveConflicts();
+        }),
+        vscode.commands.registerCommand('reflexible.syncMenu', async () => {
+            await folderSync.showMenu();
+        }),
+        vscode.commands.registerCommand('reflexible.checkConnection', async () => {
+            const reachable = await connectivity.checkNow();
+            if (!reachable) {
+                vscode.window.showWarningMessage('Reflexible is still unreachable - will keep retrying in the background');
+            }
+        }),
         vscode.commands.registerCommand('reflexible.authenticate', async () => {
             await authenticateCommand(context, outputChannel);
             await refreshConfig();
@@ -72,14 +189,51 @@ export function activate(context: vscode.ExtensionContext) {
             await refreshConfig();
         }),
         vscode.commands.registerCommand('reflexible.compileFile', async () => {
-            return compileCurrentFile(context, outputChannel);
+            return compileCurrentFile(context, outputChannel, diagnostics);
         }),
         vscode.commands.registerCommand('reflexible.verifyFile', async () => {
-            return verifyCurrentFile(context, outputChannel);
+            return verifyCurrentFile(context, outputChannel, diagnostics);
         }),
         vscode.commands.registerCommand('reflexible.newSession', async () => {
             await newSessionCommand(context, outputChannel);
         }),
+        vscode.commands.registerCommand('reflexible.uploadWorkspace', async () => {
+            await uploadWorkspaceCommand(context, outputChannel, projectTree.getActiveProjectId() ?? undefined);
+        }),
+        vscode.commands.registerCommand('reflexible.linkProject', async (treeItem?: any) => {
+            const folder = await folderForUri(vscode.window.activeTextEditor?.document.uri, 'Workspace folder to link to a project');
+            if (!folder) {
+                vscode.window.showErrorMessage('Please open a workspace folder first');
+                return;
+            }
+
+            let project: { id: string, name: string } | undefined = treeItem?.project;
+            if (!project?.id) {
+                try {
+                    const projects = await client.listProjects();
+                    project = (await vscode.window.showQuickPick(
+                        projects.map(p => ({ label: p.name, description: p.id, project: p })),
+                        { placeHolder: `Project to link ${folder.name} to` }
+                    ))?.project;
+                } catch (e: any) {
+                    showApiError(e, 'Failed to load projects');
+                    return;
+                }
+                if (!project) return;
+            }
+
+            try {
+                const uri = await ProjectBindings.get().write(folder, project.id, project.name);
+                outputChannel.appendLine(`Linked ${folder.name} to project ${project.name} in ${BINDING_FILE}`);
+                const choice = await vscode.window.showInformationMessage(`✅ ${folder.name} is linked to ${project.name}`, 'Open ' + BINDING_FILE);
+                if (choice) await vscode.window.showTextDocument(uri);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(`Failed to write ${BINDING_FILE}: ${e.message}`);
+            }
+        }),
+        vscode.commands.registerCommand('reflexible.stopSession', async () => {
+            await sessionManager.stopSession();
+        }),
         vscode.commands.registerCommand('reflexible.createProject', async () => {
             const name = await vscode.window.showInputBox({
                 prompt: 'Enter project name',
@@ -87,14 +241,11 @@ export function activate(context: vscode.ExtensionContext) {
             });
             if (name) {
                 try {
-                    await apiFetch(context, '/api/projects', {
-                        method: 'POST',
-                        body: JSON.stringify({ name })
-                    });
+                    await client.createProject(name);
                     vscode.window.showInformationMessage(`✅ Project "${name}" created`);
                     await projectTree.loadProjects();
                 } catch (e: any) {
-                    vscode.window.showErrorMessage('Failed to create project: ' + e.message);
+                    showApiError(e, 'Failed to create project');
                 }
             }
         }),
@@ -102,39 +253,103 @@ export function activate(context: vscode.ExtensionContext) {
             projectTree.setActiveProject(projectId);
             await chatManager.showForProject(projectId, projectName);
         }),
-        vscode.commands.registerCommand('reflexible.openFile', async (projectId: string, file: any) => {
+        vscode.commands.registerCommand('reflexible.refreshSessions', () => {
+            sessionTree.refresh();
+        }),
+        vscode.commands.registerCommand('reflexible.attachSession', async (node: SessionNode) => {
+            if (!node?.session) return;
+            await chatManager.attachSession(node.project.id, node.project.name, node.session.id, node.session.mode);
+        }),
+        vscode.commands.registerCommand('reflexible.openSessionTranscript', async (node: SessionNode) => {
+            if (!node?.session) return;
+            await chatManager.showTranscript(node.project.id, node.project.name, node.session.id);
+        }),
+        vscode.commands.registerCommand('reflexible.downloadSessionArtifacts', async (node: SessionNode) => {
+            if (!node?.session) return;
+            if (Config.artifactDownload === 'never') {
+                vscode.window.showInformationMessage('Artifact download is turned off in reflexible.artifactDownload');
+                return;
+            }
+            const sessionId = node.session.id;
+            try {
+                const result = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Window, title: 'Downloading session artifacts' },
+                    () => downloadArtifacts(context, node.project.id, sessionId, outputChannel)
+                );
+                decorations.setGenerated([
+                    ...result.artifacts.map(artifactPath => remoteUri(node.project.id, artifactPath)),
+                    ...result.files
+                ]);
+                if (result.artifacts.length === 0) {
+                    vscode.window.showInformationMessage('This session produced no artifacts');
+                } else if (result.written > 0) {
+                    vscode.window.showInformationMessage(
+                        `✅ Downloaded ${result.written} artifact(s) to ${vscode.workspace.asRelativePath(result.outputDir!)}`
+                    );
+                } else if (result.unchanged > 0 && result.rejected === 0 && result.failed === 0) {
+                    vscode.window.showInformationMessage(`All ${result.unchanged} artifact(s) match the workspace copies`);
+                }
+            } catch (e: any) {
+                outputChannel.appendLine('Failed to download artifacts: ' + e.message);
+                showApiError(e, 'Failed to download artifacts');
+            }
+        }),
+        vscode.commands.registerCommand('reflexible.loadMoreFiles', async (projectId: string) => {
+            await projectTree.loadMoreFiles(projectId);
+        }),
+        vscode.commands.registerCommand('reflexible.openFile', async (projectId: string, file: ProjectFile) => {
             await openFile(context, outputChannel, projectId, file);
         }),
-        vscode.commands.registerCommand('reflexible.downloadBinary', async (projectId: string, file: any) => {
-            // Download binary to workspace
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+        vscode.commands.registerCommand('reflexible.downloadBinary', async (projectId: string, file: ProjectFile) => {
+            // Download binary to the project's workspace folder
+            const folder = await folderForProject(context, projectId, `Workspace folder to download ${file.path} to`);
+            if (!folder) {
                 vscode.window.showErrorMessage('Please open a workspace folder first');
                 return;
             }
             
             try {
-                const res = await apiFetch(context, `/api/projects/${projectId}/files/download?path=${encodeURIComponent(file.path)}`, {
-                    method: 'GET'
-                });
-                
-                // Follow redirect to S3
-                const downloadUrl = res.url;
-                const { fetch } = await import('./fetch-polyfill');
-                const contentRes = await fetch(downloadUrl);
-                const arrayBuffer = await contentRes.arrayBuffer();
-                const buffer = Buffer.from(arrayBuffer);
+                const buffer = await client.downloadFile(projectId, file.path);
                 
                 // Save to workspace
-                const outputDir = vscode.Uri.joinPath(workspaceFolders[0].uri, 'output');
+                const outputDir = await outputDirectory(folder);
                 await vscode.workspace.fs.createDirectory(outputDir);
-                const filePath = vscode.Uri.joinPath(outputDir, file.path.split('/').pop());
+                const filePath = vscode.Uri.joinPath(outputDir, file.path.split('/').pop()!);
                 await vscode.workspace.fs.writeFile(filePath, buffer);
                 
-                vscode.window.showInformationMessage(`✅ Downloaded ${file.path} to output/`);
+                vscode.window.showInformationMessage(`✅ Downloaded ${file.path} to ${vscode.workspace.asRelativePath(outputDir)}`);
                 outputChannel.appendLine(`Downloaded binary: ${file.path}`);
             } catch (e: any) {
-                vscode.window.showErrorMessage('Failed to download binary: ' + e.message);
+                showApiError(e, 'Failed to download binary');
+            }
+        }),
+        vscode.commands.registerCommand('reflexible.viewAsFolders', async () => {
+            await vscode.workspace.getConfiguration('reflexible').update('tree.viewMode', 'folders', vscode.ConfigurationTarget.Global);
+        }),
+        vscode.commands.registerCommand('reflexible.viewAsCategories', async () => {
+            await vscode.workspace.getConfiguration('reflexible').update('tree.viewMode', 'categories', vscode.ConfigurationTarget.Global);
+        }),
+        vscode.commands.registerCommand('reflexible.sortTree', async () => {
+            const orders: { label: string, value: TreeSortOrder }[] = [
+                { label: 'Name', value: 'name' },
+                { label: 'Type', value: 'type' },
+                { label: 'Last Modified', value: 'modified' },
+                { label: 'Size', value: 'size' }
+            ];
+            const current = Config.treeSortBy;
+            const choice = await vscode.window.showQuickPick(
+                orders.map(o => ({ ...o, description: o.value === current ? 'current' : undefined })),
+                { placeHolder: 'Sort project files by' }
+            );
+            if (choice) {
+                await vscode.workspace.getConfiguration('reflexible').update('tree.sortBy', choice.value, vscode.ConfigurationTarget.Global);
+            }
+        }),
+        vscode.commands.registerCommand('reflexible.mountProject', (treeItem: any) => {
+            const project = treeItem?.project;
+            if (!project?.id) return;
+            if (mountProject(project.id, project.name)) {
+                outputChannel.appendLine(`Mounted project ${project.name} as a workspace folder`);
             }
         }),
         vscode.commands.registerCommand('reflexible.renameProject', async (treeItem: any) => {
@@ -146,14 +361,11 @@ export function activate(context: vscode.ExtensionContext) {
             });
             if (newName && newName.trim()) {
                 try {
-                    await apiFetch(context, `/api/projects/${projectId}`, {
-                        method: 'PATCH',
-                        body: JSON.stringify({ name: newName.trim() })
-                    });
+                    await client.renameProject(projectId, newName.trim());
                     vscode.window.showInformationMessage(`✅ Project renamed to "${newName}"`);
                     await projectTree.loadProjects();
                 } catch (e: any) {
-                    vscode.window.showErrorMessage('Failed to rename project: ' + e.message);
+                    showApiError(e, 'Failed to rename project');
                 }
             }
         }),
@@ -168,23 +380,22 @@ export function activate(context: vscode.ExtensionContext) {
             );
             if (confirm === 'Delete') {
                 try {
-                    await apiFetch(context, `/api/projects/${projectId}`, {
-                        method: 'DELETE'
-                    });
+                    await client.deleteProject(projectId);
                     vscode.window.showInformationMessage(`✅ Project "${projectName}" deleted`);
                     await projectTree.loadProjects();
                 } catch (e: any) {
-                    vscode.window.showErrorMessage('Failed to delete project: ' + e.message);
+                    showApiError(e, 'Failed to delete project');
                 }
             }
         }),
-        vscode.commands.registerCommand('reflexible.renameFile', async (treeItem: any) => {
+        vscode.commands.registerCommand('reflexible.renameFile', async (treeItem: TreeNode) => {
             const file = treeItem.project;
             if (!file || !file.id) return;
             
-            const projectId = projectTree.getActiveProjectId();
+            // The file's own project, which need not be the active one
+            const projectId = treeItem.projectId;
             if (!projectId) {
-                vscode.window.showErrorMessage('No active project');
+                vscode.window.showErrorMessage('Could not tell which project this file belongs to');
                 return;
             }
             
@@ -196,31 +407,33 @@ export function activate(context: vscode.ExtensionContext) {
             
             if (newPath && newPath.trim() && newPath !== file.path) {
                 try {
-                    await apiFetch(context, `/api/v1/projects/${projectId}/files/${file.id}`, {
-                        method: 'PATCH',
-                        body: JSON.stringify({ newPath: newPath.trim() })
-                    });
+                    await client.renameFile(projectId, file.id, newPath.trim());
+                    remoteFs.invalidate(projectId);
                     vscode.window.showInformationMessage(`✅ File renamed to "${newPath}"`);
-                    projectTree.refresh();
+                    projectTree.invalidate(projectId);
                 } catch (e: any) {
-                    vscode.window.showErrorMessage('Failed to rename file: ' + e.message);
+                    showApiError(e, 'Failed to rename file');
                 }
             }
         }),
-        vscode.commands.registerCommand('reflexible.deleteFile', async (treeItem: any, selectedItems?: any[]) => {
-            const projectId = projectTree.getActiveProjectId();
+        vscode.commands.registerCommand('reflexible.deleteFile', async (treeItem: TreeNode | undefined, selectedItems?: TreeNode[]) => {
+            // Handle multi-select
+            const items = (selectedItems && selectedItems.length > 0 ? selectedItems : treeItem ? [treeItem] : [])
+                .filter(item => item.project && item.project.id);
+            
+            if (items.length === 0) return;
+            
+            // Delete from the files' own project, which need not be the active one
+            const projectId = items[0].projectId;
             if (!projectId) {
-                vscode.window.showErrorMessage('No active project');
+                vscode.window.showErrorMessage('Could not tell which project these files belong to');
                 return;
             }
-            
-            // Handle multi-select
-            const items = selectedItems && selectedItems.length > 0 ? selectedItems : [treeItem];
-            const files = items
-                .map(item => item.project)
-                .filter(f => f && f.id);
-            
-            if (files.length === 0) return;
+            if (items.some(item => item.projectId !== projectId)) {
+                vscode.window.showErrorMessage('Select files from a single project to delete them together');
+                return;
+            }
+            const files = items.map(item => item.project);
             
             const fileNames = files.map(f => f.path).join(', ');
             const confirmMessage = files.length === 1 
@@ -239,9 +452,7 @@ export function activate(context: vscode.ExtensionContext) {
                 
                 for (const file of files) {
                     try {
-                        await apiFetch(context, `/api/v1/projects/${projectId}/files/${file.id}`, {
-                            method: 'DELETE'
-                        });
+                        await client.deleteFile(projectId, file.id);
                         successCount++;
                     } catch (e: any) {
                         errorCount++;
@@ -250,30 +461,37 @@ export function activate(context: vscode.ExtensionContext) {
                 }
                 
                 if (successCount > 0) {
+                    remoteFs.invalidate(projectId);
                     vscode.window.showInformationMessage(`✅ Deleted ${successCount} file(s)`);
                 }
                 if (errorCount > 0) {
                     vscode.window.showErrorMessage(`Failed to delete ${errorCount} file(s) - see Output`);
                 }
                 
-                projectTree.refresh();
+                projectTree.invalidate(projectId);
             }
         }),
-        vscode.commands.registerCommand('reflexible.saveFileToLocal', async (treeItem: any, selectedItems?: any[]) => {
-            const projectId = projectTree.getActiveProjectId();
+        vscode.commands.registerCommand('reflexible.saveFileToLocal', async (treeItem: TreeNode | undefined, selectedItems?: TreeNode[]) => {
+            // Handle multi-select
+            const items = selectedItems && selectedItems.length > 0 ? selectedItems : treeItem ? [treeItem] : [];
+            
+            // The files' own project; the active one only when no item was passed
+            const projectId = treeItem ? treeItem.projectId : projectTree.getActiveProjectId();
             if (!projectId) {
-                vscode.window.showErrorMessage('No active project');
+                vscode.window.showErrorMessage(treeItem ? 'Could not tell which project this file belongs to' : 'No active project');
+                return;
+            }
+            if (items.some(item => item.projectId !== projectId)) {
+                vscode.window.showErrorMessage('Select files from a single project to save them together');
                 return;
             }
             
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+            const folder = await folderForProject(context, projectId, 'Workspace folder to save the files to');
+            if (!folder) {
                 vscode.window.showErrorMessage('Please open a workspace folder first');
                 return;
             }
             
-            // Handle multi-select
-            const items = selectedItems && selectedItems.length > 0 ? selectedItems : [treeItem];
             const files = items
                 .map(item => item.project)
                 .filter(f => f && f.path);
@@ -284,26 +502,10 @@ export function activate(context: vscode.ExtensionContext) {
             if (files.length === 1) {
                 const file = files[0];
                 try {
-                    const res = await apiFetch(context, `/api/projects/${projectId}/files/download?path=${encodeURIComponent(file.path)}`, {
-                        method: 'GET'
-                    });
-                    
-                    const downloadUrl = res.url;
-                    const { fetch } = await import('./fetch-polyfill');
-                    const contentRes = await fetch(downloadUrl);
-                    
+                    const buffer = await client.downloadFile(projectId, file.path);
                     const isBinary = file.path.endsWith('.uf2') || file.path.endsWith('.bin') || file.path.endsWith('.hex') || file.path.endsWith('.elf');
                     
-                    let buffer: Uint8Array;
-                    if (isBinary) {
-                        const arrayBuffer = await contentRes.arrayBuffer();
-                        buffer = new Uint8Array(arrayBuffer);
-                    } else {
-                        const text = await contentRes.text();
-                        buffer = Buffer.from(text, 'utf-8');
-                    }
-                    
-                    const defaultUri = vscode.Uri.joinPath(workspaceFolders[0].uri, file.path.split('/').pop());
+                    const defaultUri = vscode.Uri.joinPath(folder.uri, file.path.split('/').pop()!);
                     const saveUri = await vscode.window.showSaveDialog({
                         defaultUri,
                         filters: isBinary ? { 'Binary Files': ['uf2', 'bin', 'hex', 'elf'] } : { 'All Files': ['*'] }
@@ -315,11 +517,11 @@ export function activate(context: vscode.ExtensionContext) {
                         outputChannel.appendLine(`Saved file locally: ${saveUri.fsPath}`);
                     }
                 } catch (e: any) {
-                    vscode.window.showErrorMessage('Failed to save file: ' + e.message);
+                    showApiError(e, 'Failed to save file');
                 }
             } else {
                 // For multiple files, save to output folder
-                const outputDir = vscode.Uri.joinPath(workspaceFolders[0].uri, 'output');
+                const outputDir = await outputDirectory(folder);
                 await vscode.workspace.fs.createDirectory(outputDir);
                 
                 let successCount = 0;
@@ -338,26 +540,9 @@ export function activate(context: vscode.ExtensionContext) {
                         });
                         
                         try {
-                            const res = await apiFetch(context, `/api/projects/${projectId}/files/download?path=${encodeURIComponent(file.path)}`, {
-                                method: 'GET'
-                            });
-                            
-                            const downloadUrl = res.url;
-                            const { fetch } = await import('./fetch-polyfill');
-                            const contentRes = await fetch(downloadUrl);
+                            const buffer = await client.downloadFile(projectId, file.path);
                             
-                            const isBinary = file.path.endsWith('.uf2') || file.path.endsWith('.bin') || file.path.endsWith('.hex') || file.path.endsWith('.elf');
-                            
-                            let buffer: Uint8Array;
-                            if (isBinary) {
-                                const arrayBuffer = await contentRes.arrayBuffer();
-                                buffer = new Uint8Array(arrayBuffer);
-                            } else {
-                                const text = await contentRes.text();
-                                buffer = Buffer.from(text, 'utf-8');
-                            }
-                            
-                            const filePath = vscode.Uri.joinPath(outputDir, file.path.split('/').pop());
+                            const filePath = vscode.Uri.joinPath(outputDir, file.path.split('/').pop()!);
                             await vscode.workspace.fs.writeFile(filePath, buffer);
                             successCount++;
                         } catch (e: any) {
@@ -368,13 +553,16 @@ export function activate(context: vscode.ExtensionContext) {
                 });
                 
                 if (successCount > 0) {
-                    vscode.window.showInformationMessage(`✅ Downloaded ${successCount} file(s) to output/`);
+                    vscode.window.showInformationMessage(`✅ Downloaded ${successCount} file(s) to ${vscode.workspace.asRelativePath(outputDir)}`);
                 }
                 if (errorCount > 0) {
                     vscode.window.showErrorMessage(`Failed to download ${errorCount} file(s) - see Output`);
                 }
             }
         }),
+        vscode.commands.registerCommand('reflexible.sendSelection', async () => {
+            await chatManager.attachSelection(vscode.window.activeTextEditor);
+        }),
         vscode.commands.registerCommand('reflexible.selectComputeMode', async () => {
             const modes: vscode.QuickPickItem[] = [
                 { label: '💬 Chat', description: 'Free', detail: 'Interactive responses' },
@@ -401,8 +589,9 @@ export function activate(context: vscode.ExtensionContext) {
     projectTree.loadProjects();
     
     // Refresh config on activation and periodically
-    refreshConfig();
-    setInterval(refreshConfig, 30000); // Every 30 seconds
+    pollConfig();
+    const pollTimer = setInterval(pollConfig, 30000); // Every 30 seconds
+    context.subscriptions.push({ dispose: () => clearInterval(pollTimer) });
     
     outputChannel.appendLine('Extension activated successfully!');
 }
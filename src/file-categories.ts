@@ -0,0 +1,64 @@
+import * as path from 'path';
+import { ProjectFile } from './api-types';
+import { compileGlob } from './ignore-file';
+
+/** One entry of the `reflexible.tree.categories` setting */
+export interface FileCategory {
+    name: string;
+    icon?: string;
+    /** `.gitignore`-style globs matched against the file's project path */
+    patterns: string[];
+    /** Files in this category are downloaded rather than opened */
+    binary?: boolean;
+}
+
+export type TreeSortOrder = 'name' | 'type' | 'modified' | 'size';
+
+export const DEFAULT_CATEGORIES: FileCategory[] = [
+    { name: 'Reflex Files', icon: '📝', patterns: ['*.rfx'] },
+    { name: 'Configuration', icon: '📋', patterns: ['*.json', '*.yaml', '*.yml', '*.toml'] },
+    { name: 'Binaries', icon: '💾', patterns: ['*.uf2', '*.bin', '*.hex', '*.elf'], binary: true },
+    { name: 'Output', icon: '📦', patterns: ['*.c', '*.h', 'output/**', '*report*', '**/*report*/**'] }
+];
+
+const OTHER: FileCategory = { name: 'Other', icon: '📄', patterns: [] };
+
+/**
+ * Assigns each file to the first category with a matching pattern, keeping
+ * the categories in their configured order. Files that match nothing end up
+ * in a trailing "Other" category. Empty categories are left out.
+ */
+export function categorize(files: ProjectFile[], categories: FileCategory[]): { category: FileCategory, files: ProjectFile[] }[] {
+    const matchers = categories.map(category => ({ category, patterns: category.patterns.map(compileGlob) }));
+    const groups = new Map<FileCategory, ProjectFile[]>();
+    for (const file of files) {
+        const match = matchers.find(m => m.patterns.some(p => p.test(file.path)));
+        const category = match ? match.category : OTHER;
+        groups.set(category, [...(groups.get(category) ?? []), file]);
+    }
+    return [...categories, OTHER]
+        .filter(category => groups.has(category))
+        .map(category => ({ category, files: groups.get(category)! }));
+}
+
+export function isBinaryFile(file: ProjectFile, categories: FileCategory[]): boolean {
+    const match = categories.find(c => c.patterns.some(p => compileGlob(p).test(file.path)));
+    return match?.binary === true;
+}
+
+export function compareFiles(order: TreeSortOrder): (a: ProjectFile, b: ProjectFile) => number {
+    const byName = (a: ProjectFile, b: ProjectFile) =>
+        path.posix.basename(a.path).localeCompare(path.posix.basename(b.path), undefined, { numeric: true, sensitivity: 'base' });
+    switch (order) {
+        case 'type':
+            return (a, b) => path.posix.extname(a.path).localeCompare(path.posix.extname(b.path)) || byName(a, b);
+        case 'modified':
+            // Newest first; files without a timestamp go last
+            return (a, b) => (Date.parse(b.updatedAt ?? '') || 0) - (Date.parse(a.updatedAt ?? '') || 0) || byName(a, b);
+        case 'size':
+            // Largest first
+            return (a, b) => (b.size ?? 0) - (a.size ?? 0) || byName(a, b);
+        default:
+            return byName;
+    }
+}
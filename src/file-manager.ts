@@ -1,66 +1,275 @@
 import * as vscode from 'vscode';
-import { apiFetch } from './api';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ReflexibleClient } from './client';
+import { Config } from './config';
+import { Artifact } from './api-types';
+import { classifyArtifacts, reviewArtifacts } from './artifact-review';
+import { IgnoreFile } from './ignore-file';
+import { ProjectBindings } from './project-binding';
+import { folderForProject, outputDirectory } from './workspace-folders';
 
 export async function findWorkspaceRfxFiles(): Promise<vscode.Uri[]> {
     return await vscode.workspace.findFiles('**/*.rfx', '**/node_modules/**');
 }
 
+/** RFX sources plus the config files the project tree shows under Config */
+const UPLOAD_INCLUDE = '**/*.{rfx,json,yaml,yml,toml}';
+const UPLOAD_EXCLUDE = '**/{node_modules,.git,.vscode,out}/**';
+const BATCH_MAX_FILES = 50;
+const BATCH_MAX_BYTES = 2 * 1024 * 1024;
+
+export interface UploadOptions {
+    /** Upload everything, even files whose content was already uploaded */
+    force?: boolean;
+    progress?: vscode.Progress<{ message?: string, increment?: number }>;
+    token?: vscode.CancellationToken;
+    /**
+     * Upload only this folder, with paths relative to it and its
+     * `.reflexible.json` upload globs applied
+     */
+    folder?: vscode.WorkspaceFolder;
+}
+
+export interface UploadResult {
+    uploaded: number;
+    unchanged: number;
+    /** Files left out by `.reflexibleignore` */
+    ignored: number;
+    /** Files over `reflexible.maxUploadFileSize` */
+    tooLarge: string[];
+}
+
+interface PendingUpload {
+    path: string;
+    content: string;
+    hash: string;
+}
+
+function uploadStateKey(projectId: string): string {
+    return `uploadHashes.${projectId}`;
+}
+
+/**
+ * Uploads the workspace's RFX and config files to a project. Only files whose
+ * content changed since the last upload to that project are sent, in batches
+ * so large workspaces do not end up in one huge request. Files matched by a
+ * `.reflexibleignore` in their workspace folder are skipped, as are files over
+ * the size limit. Batches that went through are remembered even if a later one
+ * fails or the upload is cancelled.
+ */
 export async function uploadWorkspaceFiles(
     context: vscode.ExtensionContext, 
-    projectId: string
-): Promise<number> {
-    const rfxFiles = await findWorkspaceRfxFiles();
-    if (rfxFiles.length === 0) return 0;
+    projectId: string,
+    options: UploadOptions = {}
+): Promise<UploadResult> {
+    const result: UploadResult = { uploaded: 0, unchanged: 0, ignored: 0, tooLarge: [] };
+    const { progress, token } = options;
+    const maxSize = Config.maxUploadFileSize * 1024;
+
+    progress?.report({ message: 'Scanning workspace...' });
+    const uris = await findUploadCandidates(options.folder);
+    const ignoreFiles = new Map<string, IgnoreFile>();
+    for (const folder of options.folder ? [options.folder] : vscode.workspace.workspaceFolders ?? []) {
+        ignoreFiles.set(folder.uri.toString(), await IgnoreFile.load(folder.uri));
+    }
+    const excludes = options.folder && IgnoreFile.parse(
+        ((await ProjectBindings.get().forFolder(options.folder))?.upload?.exclude ?? []).join('\n')
+    );
+
+    const previous = options.force ? {} : context.workspaceState.get<Record<string, string>>(uploadStateKey(projectId), {});
+    const pending: PendingUpload[] = [];
+    for (const uri of uris) {
+        if (token?.isCancellationRequested) return result;
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const relativePath = vscode.workspace.asRelativePath(uri, false);
+        if (folder && ignoreFiles.get(folder.uri.toString())?.ignores(relativePath) || excludes?.ignores(relativePath)) {
+            result.ignored++;
+            continue;
+        }
 
-    const files = await Promise.all(rfxFiles.map(async (uri) => {
+        const path = options.folder ? relativePath : vscode.workspace.asRelativePath(uri);
+        const { size } = await vscode.workspace.fs.stat(uri);
+        if (size > maxSize) {
+            result.tooLarge.push(path);
+            continue;
+        }
         const content = await vscode.workspace.fs.readFile(uri);
-        const relativePath = vscode.workspace.asRelativePath(uri);
-        return {
-            path: relativePath,
-            content: Buffer.from(content).toString('utf-8')
-        };
-    }));
-
-    const res = await apiFetch(context, `/api/v1/projects/${projectId}/files/upload-batch`, {
-        method: 'POST',
-        body: JSON.stringify({ files })
-    });
-    const data = await res.json() as any;
-    return data.filesUploaded || 0;
+        const hash = crypto.createHash('sha256').update(content).digest('hex');
+        if (previous[path] === hash) {
+            result.unchanged++;
+            continue;
+        }
+        pending.push({ path, content: Buffer.from(content).toString('utf-8'), hash });
+    }
+
+    const batches = toBatches(pending);
+    const uploaded: Record<string, string> = { ...context.workspaceState.get<Record<string, string>>(uploadStateKey(projectId), {}) };
+    const client = ReflexibleClient.for(context);
+    try {
+        for (let i = 0; i < batches.length; i++) {
+            if (token?.isCancellationRequested) break;
+            const batch = batches[i];
+            progress?.report({
+                message: `Uploading ${result.uploaded + 1}-${result.uploaded + batch.length} of ${pending.length} files`,
+                increment: 100 / batches.length
+            });
+            await client.uploadFiles(projectId, batch.map(({ path, content }) => ({ path, content })));
+            batch.forEach(file => uploaded[file.path] = file.hash);
+            result.uploaded += batch.length;
+        }
+    } finally {
+        await context.workspaceState.update(uploadStateKey(projectId), uploaded);
+    }
+    return result;
 }
 
+/** Files to consider for upload: the folder's `upload.include` globs if it has any, else RFX and config files. */
+async function findUploadCandidates(folder: vscode.WorkspaceFolder | undefined): Promise<vscode.Uri[]> {
+    if (!folder) return vscode.workspace.findFiles(UPLOAD_INCLUDE, UPLOAD_EXCLUDE);
+    const include = (await ProjectBindings.get().forFolder(folder))?.upload?.include;
+    const found = new Map<string, vscode.Uri>();
+    for (const glob of include?.length ? include : [UPLOAD_INCLUDE]) {
+        const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, glob), UPLOAD_EXCLUDE);
+        uris.forEach(uri => found.set(uri.toString(), uri));
+    }
+    return [...found.values()];
+}
+
+function toBatches(files: PendingUpload[]): PendingUpload[][] {
+    const batches: PendingUpload[][] = [];
+    let current: PendingUpload[] = [];
+    let bytes = 0;
+    for (const file of files) {
+        const size = Buffer.byteLength(file.content, 'utf-8');
+        if (current.length > 0 && (current.length >= BATCH_MAX_FILES || bytes + size > BATCH_MAX_BYTES)) {
+            batches.push(current);
+            current = [];
+            bytes = 0;
+        }
+        current.push(file);
+        bytes += size;
+    }
+    if (current.length > 0) batches.push(current);
+    return batches;
+}
+
+export interface ArtifactDownloadResult {
+    written: number;
+    rejected: number;
+    unchanged: number;
+    /** Artifacts that failed to download or did not match their checksum */
+    failed: number;
+    /** Project paths of all of the session's artifacts */
+    artifacts: string[];
+    /** Workspace files that were written */
+    files: vscode.Uri[];
+    /** Folder the artifacts were written to */
+    outputDir?: vscode.Uri;
+}
+
+/**
+ * Where an artifact goes relative to the output folder, or undefined when
+ * its server-supplied path is absolute or climbs out of the folder.
+ */
+function artifactRelativePath(artifactPath: string): string | undefined {
+    const normalized = path.posix.normalize(artifactPath.replace(/\\/g, '/'));
+    if (path.posix.isAbsolute(normalized) || /^[a-zA-Z]:/.test(normalized)) return undefined;
+    if (normalized === '..' || normalized.startsWith('../')) return undefined;
+    const relative = normalized.replace(/^output\//, '');
+    return relative && relative !== '.' ? relative : undefined;
+}
+
+/**
+ * Fetches a session's artifacts into the output directory of the workspace
+ * folder that belongs to `projectId`. Depending on the
+ * `reflexible.artifactDownload` setting new and changed files are written
+ * straight away, offered for review first, or not downloaded at all.
+ */
 export async function downloadArtifacts(
     context: vscode.ExtensionContext, 
+    projectId: string,
     sessionId: string, 
     outputChannel: vscode.OutputChannel
-): Promise<number> {
-    // Verify workspace folder exists
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-        vscode.window.showErrorMessage('No workspace folder open - cannot download artifacts');
-        return 0;
+): Promise<ArtifactDownloadResult> {
+    const result: ArtifactDownloadResult = { written: 0, rejected: 0, unchanged: 0, failed: 0, artifacts: [], files: [] };
+    const mode = Config.artifactDownload;
+    if (mode === 'never') {
+        outputChannel.appendLine(`Artifact download disabled - skipping artifacts of session ${sessionId}`);
+        return result;
     }
+
+    const client = ReflexibleClient.for(context);
+    const artifacts = await client.getArtifacts(sessionId);
+    result.artifacts = artifacts.map(artifact => artifact.path);
     
-    const res = await apiFetch(context, `/api/v1/sessions/${sessionId}/artifacts`, { method: 'GET' });
-    const data = await res.json() as any;
-    
-    if (!data.artifacts || data.artifacts.length === 0) {
+    if (artifacts.length === 0) {
         outputChannel.appendLine('No artifacts to download');
-        return 0;
+        return result;
     }
 
-    const outputDir = vscode.Uri.joinPath(workspaceFolders[0].uri, 'output');
-    await vscode.workspace.fs.createDirectory(outputDir);
+    // A file that fails its checks is reported and never written
+    const downloads: { artifact: Artifact, data: Uint8Array }[] = [];
+    const failures: string[] = [];
+    for (const artifact of artifacts) {
+        if (!artifactRelativePath(artifact.path)) {
+            outputChannel.appendLine(`Refused artifact ${artifact.path}: its path leads outside the output folder`);
+            failures.push(artifact.path);
+            continue;
+        }
+        try {
+            downloads.push({ artifact, data: await client.fetchArtifact(sessionId, artifact) });
+        } catch (e: any) {
+            outputChannel.appendLine(`Failed to download artifact ${artifact.path}: ${e.message}`);
+            failures.push(artifact.path);
+        }
+    }
+    result.failed = failures.length;
+    if (failures.length > 0) {
+        vscode.window.showErrorMessage(
+            `${failures.length} artifact(s) failed to download, did not match their checksum or pointed outside the output folder, and were not written: ${failures.join(', ')}`,
+            'Show Log'
+        ).then(selection => {
+            if (selection === 'Show Log') outputChannel.show();
+        });
+    }
 
-    for (const artifact of data.artifacts) {
-        const filePath = vscode.Uri.joinPath(outputDir, artifact.path.replace(/^output\//, ''));
-        const dirPath = vscode.Uri.joinPath(filePath, '..');
-        await vscode.workspace.fs.createDirectory(dirPath);
-        await vscode.workspace.fs.writeFile(filePath, Buffer.from(artifact.content, 'utf-8'));
-        outputChannel.appendLine(`Downloaded: ${artifact.path}`);
+    if (downloads.length === 0) return result;
+
+    const folder = await folderForProject(context, projectId, 'Workspace folder to download the session artifacts to');
+    if (!folder) {
+        vscode.window.showErrorMessage('No workspace folder open - cannot download artifacts');
+        return result;
+    }
+    const outputDir = await outputDirectory(folder);
+    result.outputDir = outputDir;
+    const incoming = await classifyArtifacts(
+        downloads,
+        artifact => vscode.Uri.joinPath(outputDir, artifactRelativePath(artifact.path)!)
+    );
+    const pending = incoming.filter(i => i.status !== 'unchanged');
+    result.unchanged = incoming.length - pending.length;
+    if (pending.length === 0) {
+        outputChannel.appendLine(`All ${incoming.length} artifact(s) match the workspace copies`);
+        return result;
     }
 
-    vscode.window.showInformationMessage(`Downloaded ${data.artifacts.length} artifact(s) to output/`);
-    return data.artifacts.length;
-}
+    const accepted = mode === 'auto' ? pending : await reviewArtifacts(incoming);
+    result.rejected = pending.length - accepted.length;
 
+    for (const { artifact, data, target, status } of accepted) {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, '..'));
+        await vscode.workspace.fs.writeFile(target, data);
+        outputChannel.appendLine(`Downloaded (${status}): ${artifact.path}`);
+        result.written++;
+        result.files.push(target);
+    }
+    for (const { artifact } of pending.filter(i => !accepted.includes(i))) {
+        outputChannel.appendLine(`Rejected: ${artifact.path}`);
+    }
+
+    if (result.written > 0) {
+        vscode.window.showInformationMessage(`Downloaded ${result.written} artifact(s) to ${vscode.workspace.asRelativePath(outputDir)}`);
+    }
+    return result;
+}
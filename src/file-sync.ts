@@ -1,41 +1,378 @@
 import * as vscode from 'vscode';
-import { apiFetch } from './api';
+import { ReflexibleClient } from './client';
+import { ProjectFile } from './api-types';
+import { AuthError, ConflictError, NetworkError, NotFoundError, showApiError } from './errors';
 
-const TEMP_SCHEME = 'reflexible';
-const fileCache = new Map<string, { projectId: string, fileId: string, originalContent: string }>();
+export const REMOTE_SCHEME = 'reflexible';
+const CONFLICT_SCHEME = 'reflexible-conflict';
 
-export class FileSyncProvider implements vscode.TextDocumentContentProvider {
-    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
-    readonly onDidChange = this._onDidChange.event;
+/** How long a project's file listing is trusted before stat/readDirectory refetch it */
+const LISTING_TTL = 5000;
+
+interface ProjectIndex {
+    files: Map<string, ProjectFile>;
+    /** Folders created locally that contain no files yet - the API only knows files */
+    emptyDirs: Set<string>;
+    fetchedAt: number;
+}
+
+/** The server version an editor's content is based on */
+interface BaseVersion {
+    version?: string;
+    etag?: string;
+    content: Uint8Array;
+}
+
+export function versionOf(file: ProjectFile): string | undefined {
+    return file.etag ?? file.updatedAt;
+}
+
+/** Read-only ours/theirs/base snapshots shown in the merge editor */
+class ConflictContentProvider implements vscode.TextDocumentContentProvider {
+    readonly contents = new Map<string, string>();
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+}
+
+/** `reflexible://<projectId>/<path>` for a project file. */
+export function remoteUri(projectId: string, path: string = ''): vscode.Uri {
+    return vscode.Uri.from({ scheme: REMOTE_SCHEME, authority: projectId, path: '/' + path.replace(/^\/+/, '') });
+}
+
+function parseUri(uri: vscode.Uri): { projectId: string, path: string } {
+    return { projectId: uri.authority, path: uri.path.replace(/^\/+|\/+$/g, '') };
+}
+
+/**
+ * Exposes Reflexible projects as a file system, so a project can be opened
+ * in the editor or mounted as a workspace folder and edited natively. The
+ * project files API is flat, so folders are derived from file paths.
+ */
+export class ReflexibleFileSystemProvider implements vscode.FileSystemProvider {
+    private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    private readonly indexes = new Map<string, ProjectIndex>();
+    private readonly pending = new Map<string, Promise<ProjectIndex>>();
+    private readonly bases = new Map<string, BaseVersion>();
+    readonly conflicts = new ConflictContentProvider();
 
     constructor(
         private readonly context: vscode.ExtensionContext,
         private readonly outputChannel: vscode.OutputChannel
     ) {}
 
-    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
-        const key = uri.toString();
-        const cached = fileCache.get(key);
-        
-        if (cached) {
-            return cached.originalContent;
+    private get client() {
+        return ReflexibleClient.for(this.context);
+    }
+
+    /** The server has no change feed; changes are announced as we make them */
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => {});
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const { projectId, path } = parseUri(uri);
+        const index = await this.index(uri, projectId);
+        const file = index.files.get(path);
+        if (file) {
+            const mtime = file.updatedAt ? Date.parse(file.updatedAt) || 0 : 0;
+            return { type: vscode.FileType.File, ctime: mtime, mtime, size: file.size ?? 0 };
+        }
+        if (this.isDirectory(index, path)) {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+        throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const { projectId, path } = parseUri(uri);
+        const index = await this.index(uri, projectId);
+        if (!this.isDirectory(index, path)) {
+            throw index.files.has(path) ? vscode.FileSystemError.FileNotADirectory(uri) : vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        const prefix = path ? path + '/' : '';
+        const entries = new Map<string, vscode.FileType>();
+        const add = (childPath: string, isFile: boolean) => {
+            if (!childPath.startsWith(prefix)) return;
+            const rest = childPath.slice(prefix.length);
+            const slash = rest.indexOf('/');
+            if (slash === -1) {
+                entries.set(rest, isFile ? vscode.FileType.File : vscode.FileType.Directory);
+            } else {
+                entries.set(rest.slice(0, slash), vscode.FileType.Directory);
+            }
+        };
+        index.files.forEach((_, filePath) => add(filePath, true));
+        index.emptyDirs.forEach(dir => add(dir, false));
+        return [...entries];
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const { projectId, path } = parseUri(uri);
+        const index = await this.index(uri, projectId);
+        const file = index.files.get(path);
+        if (!file) {
+            throw this.isDirectory(index, path) ? vscode.FileSystemError.FileIsADirectory(uri) : vscode.FileSystemError.FileNotFound(uri);
+        }
+        const content = await this.call(uri, () => this.client.downloadFile(projectId, path));
+        this.bases.set(uri.toString(), { version: versionOf(file), etag: file.etag, content });
+        return content;
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+        const { projectId, path } = parseUri(uri);
+        const index = await this.index(uri, projectId);
+        const exists = index.files.has(path);
+        if (this.isDirectory(index, path)) throw vscode.FileSystemError.FileIsADirectory(uri);
+        if (!exists && !options.create) throw vscode.FileSystemError.FileNotFound(uri);
+        if (exists && !options.overwrite) throw vscode.FileSystemError.FileExists(uri);
+
+        let base = this.bases.get(uri.toString());
+        if (exists && base && !base.etag) {
+            // Without an ETag the server cannot refuse a stale write; check a fresh
+            // listing instead, as the cached one may predate a teammate's save
+            const remote = (await this.index(uri, projectId, true)).files.get(path);
+            if (remote && base.version && versionOf(remote) !== base.version) {
+                base = await this.resolveConflict(uri, content, base, remote);
+            }
+        }
+
+        let etag: string | undefined;
+        try {
+            etag = await this.call(uri, () => this.client.saveFile(projectId, path, content, base?.etag));
+        } catch (e) {
+            // The server saw a newer version than the one we edited
+            if (!(e instanceof ConflictError) || !base) throw e;
+            const remote = (await this.index(uri, projectId, true)).files.get(path);
+            if (!remote) throw e;
+            await this.resolveConflict(uri, content, base, remote);
+            etag = await this.call(uri, () => this.client.saveFile(projectId, path, content));
+        }
+        this.outputChannel.appendLine(`Saved remote file: ${path}`);
+        this.clearConflict(uri);
+
+        // What we just wrote is the new base. Only a server that sends no ETag
+        // needs a listing to learn the saved version.
+        if (etag) {
+            this.bases.set(uri.toString(), { version: etag, etag, content });
+            const listed = this.indexes.get(projectId)?.files.get(path);
+            if (listed) this.indexes.get(projectId)!.files.set(path, { ...listed, etag, size: content.length });
+            if (!exists) this.invalidate(projectId);
+        } else {
+            const saved = (await this.index(uri, projectId, true)).files.get(path);
+            this.bases.set(uri.toString(), { version: saved && versionOf(saved), etag: saved?.etag, content });
+        }
+        this.fire(exists ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri);
+    }
+
+    /**
+     * Asks what to do when the server copy changed since it was read.
+     * Resolves with the base to save against when the user chooses to
+     * overwrite; otherwise throws so the editor stays dirty, after opening
+     * the merge editor if the user chose to merge.
+     */
+    private async resolveConflict(uri: vscode.Uri, ours: Uint8Array, base: BaseVersion, remote: ProjectFile): Promise<BaseVersion> {
+        const { projectId, path } = parseUri(uri);
+        const name = path.split('/').pop();
+        const binary = ours.includes(0) || base.content.includes(0);
+        const choice = await vscode.window.showWarningMessage(
+            `${name} was changed on the server since you opened it.`,
+            {
+                modal: true,
+                detail: binary
+                    ? 'Overwrite the server copy with yours, or cancel and reopen the file to get the server version.'
+                    : 'Merge the server changes into yours, or overwrite the server copy.'
+            },
+            ...(binary ? ['Overwrite'] : ['Merge', 'Overwrite'])
+        );
+
+        if (choice === 'Overwrite') {
+            return { version: versionOf(remote), content: base.content };
+        }
+        if (choice === 'Merge') {
+            const theirs = await this.call(uri, () => this.client.downloadFile(projectId, path));
+            await this.openMergeEditor(uri, ours, base.content, theirs);
+            // Saving the merge result should not report the same conflict again
+            this.bases.set(uri.toString(), { version: versionOf(remote), etag: remote.etag, content: theirs });
+        }
+        throw vscode.FileSystemError.Unavailable(`${name} changed on the server - ${choice === 'Merge' ? 'resolve the conflict in the merge editor and save again' : 'not saved'}`);
+    }
+
+    /** Drops the merge snapshots of `uri` once a save has resolved its conflict. */
+    private clearConflict(uri: vscode.Uri) {
+        for (const side of ['ours', 'base', 'theirs']) {
+            this.conflicts.contents.delete(uri.with({ scheme: CONFLICT_SCHEME, query: side }).toString());
+        }
+    }
+
+    private async openMergeEditor(uri: vscode.Uri, ours: Uint8Array, base: Uint8Array, theirs: Uint8Array) {
+        const snapshot = (side: string, content: Uint8Array) => {
+            const snapshotUri = uri.with({ scheme: CONFLICT_SCHEME, query: side });
+            this.conflicts.contents.set(snapshotUri.toString(), Buffer.from(content).toString('utf-8'));
+            return snapshotUri;
+        };
+        const oursUri = snapshot('ours', ours);
+        const baseUri = snapshot('base', base);
+        const theirsUri = snapshot('theirs', theirs);
+
+        try {
+            // The merge editor has no public API; this is the command the git extension uses
+            await vscode.commands.executeCommand('_open.mergeEditor', {
+                base: baseUri,
+                input1: { uri: oursUri, title: 'Yours', description: 'Your unsaved changes' },
+                input2: { uri: theirsUri, title: 'Server', description: 'Current server version' },
+                output: uri
+            });
+        } catch (e: any) {
+            this.outputChannel.appendLine(`Merge editor unavailable (${e.message}) - showing a diff instead`);
+            await vscode.commands.executeCommand('vscode.diff', theirsUri, uri, `${uri.path.split('/').pop()} (server ↔ yours)`);
+        }
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        const { projectId, path } = parseUri(uri);
+        const index = await this.index(uri, projectId);
+        if (index.files.has(path) || this.isDirectory(index, path)) throw vscode.FileSystemError.FileExists(uri);
+        index.emptyDirs.add(path);
+        this.fire(vscode.FileChangeType.Created, uri);
+    }
+
+    async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        const { projectId, path } = parseUri(uri);
+        const index = await this.index(uri, projectId);
+        const file = index.files.get(path);
+        if (file) {
+            await this.call(uri, () => this.client.deleteFile(projectId, file.id));
+            this.bases.delete(uri.toString());
+            this.clearConflict(uri);
+        } else if (this.isDirectory(index, path)) {
+            const contained = this.filesUnder(index, path);
+            if (contained.length > 0 && !options.recursive) throw vscode.FileSystemError.NoPermissions('Folder is not empty');
+            for (const child of contained) {
+                await this.call(uri, () => this.client.deleteFile(projectId, child.id));
+            }
+            for (const dir of [...index.emptyDirs]) {
+                if (dir === path || dir.startsWith(path + '/')) index.emptyDirs.delete(dir);
+            }
+        } else {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        this.outputChannel.appendLine(`Deleted remote ${file ? 'file' : 'folder'}: ${path}`);
+        this.invalidate(projectId);
+        this.fire(vscode.FileChangeType.Deleted, uri);
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        const from = parseUri(oldUri);
+        const to = parseUri(newUri);
+        if (from.projectId !== to.projectId) {
+            throw vscode.FileSystemError.NoPermissions('Files cannot be moved between projects');
+        }
+        const index = await this.index(oldUri, from.projectId);
+        const target = index.files.get(to.path);
+        if ((target || this.isDirectory(index, to.path)) && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(newUri);
+        }
+
+        const file = index.files.get(from.path);
+        if (file) {
+            if (target) await this.call(newUri, () => this.client.deleteFile(to.projectId, target.id));
+            await this.call(oldUri, () => this.client.renameFile(from.projectId, file.id, to.path));
+            this.bases.delete(oldUri.toString());
+        } else if (this.isDirectory(index, from.path)) {
+            for (const child of this.filesUnder(index, from.path)) {
+                const newPath = to.path + child.path.slice(from.path.length);
+                await this.call(oldUri, () => this.client.renameFile(from.projectId, child.id, newPath));
+            }
+            for (const dir of [...index.emptyDirs]) {
+                if (dir === from.path || dir.startsWith(from.path + '/')) {
+                    index.emptyDirs.delete(dir);
+                    index.emptyDirs.add(to.path + dir.slice(from.path.length));
+                }
+            }
+        } else {
+            throw vscode.FileSystemError.FileNotFound(oldUri);
+        }
+        this.outputChannel.appendLine(`Renamed remote ${from.path} -> ${to.path}`);
+        this.invalidate(from.projectId);
+        this._onDidChangeFile.fire([
+            { type: vscode.FileChangeType.Deleted, uri: oldUri },
+            { type: vscode.FileChangeType.Created, uri: newUri }
+        ]);
+    }
+
+    /** Drops the cached listing, e.g. after the project tree changed files. */
+    invalidate(projectId: string): void {
+        const index = this.indexes.get(projectId);
+        if (index) index.fetchedAt = 0;
+    }
+
+    private async index(uri: vscode.Uri, projectId: string, fresh = false): Promise<ProjectIndex> {
+        const cached = this.indexes.get(projectId);
+        if (cached && !fresh && Date.now() - cached.fetchedAt < LISTING_TTL) return cached;
+
+        // stat and readDirectory come in bursts; share one listing request
+        let pending = this.pending.get(projectId);
+        if (!pending) {
+            pending = this.call(uri, () => this.client.listFiles(projectId)).then(files => {
+                const index: ProjectIndex = {
+                    files: new Map(files.map(f => [f.path.replace(/^\/+/, ''), f])),
+                    emptyDirs: cached?.emptyDirs ?? new Set(),
+                    fetchedAt: Date.now()
+                };
+                // A folder stops being "empty" once the server has files in it
+                for (const dir of [...index.emptyDirs]) {
+                    if (this.filesUnder(index, dir).length > 0) index.emptyDirs.delete(dir);
+                }
+                this.indexes.set(projectId, index);
+                return index;
+            }).finally(() => this.pending.delete(projectId));
+            this.pending.set(projectId, pending);
+        }
+        return pending;
+    }
+
+    private isDirectory(index: ProjectIndex, path: string): boolean {
+        if (path === '') return true;
+        if (index.emptyDirs.has(path)) return true;
+        const prefix = path + '/';
+        for (const filePath of index.files.keys()) {
+            if (filePath.startsWith(prefix)) return true;
+        }
+        for (const dir of index.emptyDirs) {
+            if (dir.startsWith(prefix)) return true;
         }
+        return false;
+    }
+
+    private filesUnder(index: ProjectIndex, path: string): ProjectFile[] {
+        const prefix = path + '/';
+        return [...index.files.entries()].filter(([filePath]) => filePath.startsWith(prefix)).map(([, file]) => file);
+    }
 
-        // Parse URI to get project and file info
-        const [projectId, fileId] = uri.path.split('/').filter(Boolean);
-        
+    /** Runs an API call, translating failures into the errors VS Code expects from providers. */
+    private async call<T>(uri: vscode.Uri, fn: () => Promise<T>): Promise<T> {
         try {
-            // Note: files are stored in S3, need to download via path not fileId
-            // This is a placeholder - actual implementation needs file path
-            return '// File content loading...';
+            return await fn();
         } catch (e: any) {
-            this.outputChannel.appendLine('Failed to load file: ' + e.message);
-            return `// Error loading file: ${e.message}`;
+            this.outputChannel.appendLine(`Remote file operation failed for ${uri.toString()}: ${e.message}`);
+            if (e instanceof NotFoundError) throw vscode.FileSystemError.FileNotFound(uri);
+            if (e instanceof AuthError) throw vscode.FileSystemError.NoPermissions(e.message);
+            if (e instanceof NetworkError) throw vscode.FileSystemError.Unavailable(e.message);
+            throw e;
         }
     }
 
-    update(uri: vscode.Uri) {
-        this._onDidChange.fire(uri);
+    private fire(type: vscode.FileChangeType, uri: vscode.Uri) {
+        this._onDidChangeFile.fire([{ type, uri }]);
+        const parent = vscode.Uri.joinPath(uri, '..');
+        if (parent.path !== uri.path) {
+            this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: parent }]);
+        }
     }
 }
 
@@ -43,96 +380,36 @@ export async function openFile(
     context: vscode.ExtensionContext,
     outputChannel: vscode.OutputChannel,
     projectId: string,
-    file: any
+    file: ProjectFile
 ): Promise<void> {
     try {
-        // Download file from S3 via API
-        const res = await apiFetch(context, `/api/projects/${projectId}/files/download?path=${encodeURIComponent(file.path)}`, {
-            method: 'GET'
-        });
-        
-        // The API returns a redirect to S3, we need to follow it
-        const downloadUrl = res.url;
-        const contentRes = await fetch(downloadUrl);
-        const content = await contentRes.text();
-
-        // Create virtual document
-        const uri = vscode.Uri.parse(`${TEMP_SCHEME}:///${projectId}/${file.id}/${file.path}`);
-        fileCache.set(uri.toString(), { projectId, fileId: file.id, originalContent: content });
-
-        // Open in editor
-        const doc = await vscode.workspace.openTextDocument(uri);
+        const doc = await vscode.workspace.openTextDocument(remoteUri(projectId, file.path));
         await vscode.window.showTextDocument(doc);
-
     } catch (e: any) {
         outputChannel.appendLine('Failed to open file: ' + e.message);
-        vscode.window.showErrorMessage('Failed to open file: ' + e.message);
+        showApiError(e, 'Failed to open file');
     }
 }
 
-export async function saveFile(
-    context: vscode.ExtensionContext,
-    outputChannel: vscode.OutputChannel,
-    document: vscode.TextDocument
-): Promise<void> {
-    if (document.uri.scheme !== TEMP_SCHEME) return;
-
-    const key = document.uri.toString();
-    const cached = fileCache.get(key);
-    
-    if (!cached) {
-        outputChannel.appendLine('File not in cache, cannot save');
-        return;
-    }
-
-    const content = document.getText();
-    
-    // Check if content actually changed
-    if (content === cached.originalContent) {
-        return;
-    }
-
-    try {
-        // Extract file path from URI
-        const pathParts = document.uri.path.split('/').filter(Boolean);
-        const filePath = pathParts.slice(2).join('/'); // Skip projectId and fileId
-        
-        // Upload to S3 via existing files endpoint
-        await apiFetch(context, `/api/projects/${cached.projectId}/files`, {
-            method: 'POST',
-            body: JSON.stringify({
-                path: filePath,
-                content
-            })
-        });
-
-        // Update cache with new content
-        cached.originalContent = content;
-        fileCache.set(key, cached);
-        
-        outputChannel.appendLine(`Saved file: ${filePath}`);
-        vscode.window.showInformationMessage(`✅ File saved to Reflexible`);
-
-    } catch (e: any) {
-        outputChannel.appendLine('Failed to save file: ' + e.message);
-        vscode.window.showErrorMessage('Failed to save file: ' + e.message);
+/** Adds a project as a workspace folder backed by the `reflexible:` file system. */
+export function mountProject(projectId: string, projectName: string): boolean {
+    const uri = remoteUri(projectId);
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.some(f => f.uri.toString() === uri.toString())) {
+        vscode.window.showInformationMessage(`${projectName} is already in the workspace`);
+        return false;
     }
+    return vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri, name: `Reflexible: ${projectName}` });
 }
 
 export function registerFileSyncProvider(
     context: vscode.ExtensionContext,
     outputChannel: vscode.OutputChannel
-): void {
-    const provider = new FileSyncProvider(context, outputChannel);
+): ReflexibleFileSystemProvider {
+    const provider = new ReflexibleFileSystemProvider(context, outputChannel);
     context.subscriptions.push(
-        vscode.workspace.registerTextDocumentContentProvider(TEMP_SCHEME, provider)
-    );
-
-    // Auto-save on document save
-    context.subscriptions.push(
-        vscode.workspace.onDidSaveTextDocument(async (document) => {
-            await saveFile(context, outputChannel, document);
-        })
+        vscode.workspace.registerFileSystemProvider(REMOTE_SCHEME, provider, { isCaseSensitive: true }),
+        vscode.workspace.registerTextDocumentContentProvider(CONFLICT_SCHEME, provider.conflicts)
     );
+    return provider;
 }
-
@@ -0,0 +1,568 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ReflexibleClient } from './client';
+import { ProjectFile } from './api-types';
+import { Config } from './config';
+import { ConnectivityMonitor } from './connectivity';
+import { ConflictError, NetworkError, showApiError } from './errors';
+import { remoteUri, versionOf } from './file-sync';
+import { IGNORE_FILE, IgnoreFile } from './ignore-file';
+import { StatusBarManager } from './status-bar';
+
+const LINK_KEY = 'folderSync.link';
+const STATE_KEY = 'folderSync.files';
+const PUSH_DELAY = 1000;
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+export interface FolderLink {
+    folder: string;
+    projectId: string;
+    projectName: string;
+}
+
+/** Both sides of a file as of its last successful sync */
+interface SyncedFile {
+    localHash: string;
+    remoteVersion?: string;
+}
+
+function hash(data: Uint8Array): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * A project file's path relative to the linked folder, or undefined when the
+ * server-supplied path has a `..` segment, a drive letter or a root that
+ * would put it outside the folder.
+ */
+function localRelativePath(projectPath: string): string | undefined {
+    const trimmed = projectPath.replace(/\\/g, '/').replace(/^\/+/, '');
+    if (trimmed.split('/').includes('..') || /^[a-zA-Z]:/.test(trimmed)) return undefined;
+    const normalized = path.posix.normalize(trimmed);
+    if (path.posix.isAbsolute(normalized) || normalized === '.' || normalized.endsWith('/')) return undefined;
+    return normalized;
+}
+
+/**
+ * Mirrors a local folder and a Reflexible project. Local edits are pushed
+ * shortly after they happen; remote changes are pulled on a timer, after a
+ * session completes, and on demand. A file changed on both sides since the
+ * last sync is held back as a conflict until the user picks a side.
+ */
+export class FolderSync implements vscode.Disposable {
+    private link: FolderLink | undefined;
+    private synced: Record<string, SyncedFile>;
+    private readonly dirty = new Set<string>();
+    private readonly conflicts = new Set<string>();
+    /** Remote listing as of the last pull or push, kept up to date with our own writes */
+    private remoteFiles: Map<string, ProjectFile> | undefined;
+    private syncing = false;
+    private error: string | undefined;
+    private queue: Promise<void> = Promise.resolve();
+    private pushTimer: NodeJS.Timeout | undefined;
+    private pullTimer: NodeJS.Timeout | undefined;
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private ignore: IgnoreFile | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly _onDidChangeState = new vscode.EventEmitter<void>();
+    /** Fires when files become pending, conflicted or synced */
+    readonly onDidChangeState = this._onDidChangeState.event;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly statusBar: StatusBarManager
+    ) {
+        this.link = context.workspaceState.get<FolderLink>(LINK_KEY);
+        this.synced = context.workspaceState.get<Record<string, SyncedFile>>(STATE_KEY, {});
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('reflexible.syncInterval')) this.schedulePull();
+            }),
+            ConnectivityMonitor.get().onDidChange(online => {
+                if (online && this.link && this.error) this.sync();
+            })
+        );
+
+        if (this.link) {
+            this.start();
+            this.sync();
+        }
+        this.updateStatus();
+    }
+
+    get linkedProjectId(): string | undefined {
+        return this.link?.projectId;
+    }
+
+    /** Whether `uri` lies inside the linked folder. */
+    isLinked(uri: vscode.Uri): boolean {
+        return this.relativePath(uri) !== undefined;
+    }
+
+    /** Sync state of a file in the linked folder; undefined when it is in sync or not linked. */
+    fileState(uri: vscode.Uri): 'pending' | 'conflict' | undefined {
+        const relative = this.relativePath(uri);
+        if (relative === undefined) return undefined;
+        if (this.conflicts.has(relative)) return 'conflict';
+        return this.dirty.has(relative) ? 'pending' : undefined;
+    }
+
+    private relativePath(uri: vscode.Uri): string | undefined {
+        if (!this.link) return undefined;
+        const root = this.root;
+        if (uri.scheme !== root.scheme || uri.authority !== root.authority) return undefined;
+        const relative = path.posix.relative(root.path, uri.path);
+        return relative && !relative.startsWith('..') ? relative : undefined;
+    }
+
+    private get root(): vscode.Uri {
+        return vscode.Uri.parse(this.link!.folder);
+    }
+
+    /** Asks for a folder and a project, then links and syncs them. */
+    async promptLink(folder?: vscode.Uri): Promise<void> {
+        if (!folder) {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectFolders: true,
+                canSelectFiles: false,
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                openLabel: 'Link Folder'
+            });
+            folder = picked?.[0];
+            if (!folder) return;
+        }
+
+        let projects;
+        try {
+            projects = await ReflexibleClient.for(this.context).listProjects();
+        } catch (e: any) {
+            showApiError(e, 'Failed to load projects');
+            return;
+        }
+        const project = await vscode.window.showQuickPick(
+            projects.map(p => ({ label: p.name, description: p.id, project: p })),
+            { placeHolder: `Project to mirror in ${path.basename(folder.fsPath)}` }
+        );
+        if (!project) return;
+
+        await this.linkFolder(folder, project.project.id, project.project.name);
+    }
+
+    async linkFolder(folder: vscode.Uri, projectId: string, projectName: string): Promise<void> {
+        this.stop();
+        this.link = { folder: folder.toString(), projectId, projectName };
+        this.synced = {};
+        this.conflicts.clear();
+        await this.save();
+        this.start();
+        this.outputChannel.appendLine(`Linked ${folder.fsPath} to project ${projectName}`);
+        await this.sync(true);
+        vscode.window.showInformationMessage(
+            `✅ ${path.basename(folder.fsPath)} is linked to ${projectName}` +
+            (this.conflicts.size > 0 ? ` - ${this.conflicts.size} file(s) differ on both sides and need resolving` : '')
+        );
+    }
+
+    async unlink(): Promise<void> {
+        if (!this.link) return;
+        this.outputChannel.appendLine(`Unlinked ${vscode.Uri.parse(this.link.folder).fsPath} from project ${this.link.projectName}`);
+        this.stop();
+        this.link = undefined;
+        this.synced = {};
+        this.conflicts.clear();
+        this.error = undefined;
+        await this.save();
+        this.updateStatus();
+    }
+
+    /** Pushes local changes, then pulls remote ones. */
+    sync(interactive = false): Promise<void> {
+        return this.enqueue(async () => {
+            await this.pushChanges();
+            await this.pullChanges();
+        }, interactive);
+    }
+
+    push(interactive = false): Promise<void> {
+        return this.enqueue(() => this.pushChanges(), interactive);
+    }
+
+    pull(interactive = false): Promise<void> {
+        return this.enqueue(() => this.pullChanges(), interactive);
+    }
+
+    /** Status bar menu */
+    async showMenu(): Promise<void> {
+        if (!this.link) {
+            await this.promptLink();
+            return;
+        }
+        const actions: { label: string, run: () => Promise<void> }[] = [
+            { label: '$(sync) Sync Now', run: () => this.sync(true) },
+            { label: '$(cloud-upload) Push Local Changes', run: () => this.push(true) },
+            { label: '$(cloud-download) Pull Remote Changes', run: () => this.pull(true) },
+            ...(this.conflicts.size > 0 ? [{ label: `$(warning) Resolve ${this.conflicts.size} Conflict(s)`, run: () => this.resolveConflicts() }] : []),
+            { label: '$(debug-disconnect) Unlink Folder', run: () => this.unlink() }
+        ];
+        const choice = await vscode.window.showQuickPick(actions, {
+            placeHolder: `${vscode.Uri.parse(this.link.folder).fsPath} ↔ ${this.link.projectName}`
+        });
+        await choice?.run();
+    }
+
+    /** Walks through conflicted files, offering a diff and a choice of side for each. */
+    async resolveConflicts(): Promise<void> {
+        while (this.link && this.conflicts.size > 0) {
+            const file = await vscode.window.showQuickPick([...this.conflicts].sort(), {
+                placeHolder: 'Changed locally and on the server - pick a file to resolve'
+            });
+            if (!file) return;
+
+            const local = vscode.Uri.joinPath(this.root, file);
+            const action = await vscode.window.showQuickPick([
+                { label: '$(diff) Compare', id: 'compare' },
+                { label: '$(cloud-upload) Keep Local Version', id: 'local' },
+                { label: '$(cloud-download) Keep Server Version', id: 'remote' }
+            ], { placeHolder: file });
+            if (!action) return;
+
+            if (action.id === 'compare') {
+                await vscode.commands.executeCommand('vscode.diff', remoteUri(this.link.projectId, file), local, `${file} (server ↔ local)`);
+                return;
+            }
+            const keepLocal = action.id === 'local';
+            await this.enqueue(async () => {
+                this.conflicts.delete(file);
+                const remote = (await this.listRemote()).get(file);
+                if (keepLocal) {
+                    await this.upload(file);
+                } else if (remote) {
+                    await this.download(file, remote);
+                } else {
+                    await vscode.workspace.fs.delete(local);
+                    delete this.synced[file];
+                }
+            }, true);
+        }
+    }
+
+    private start() {
+        const root = this.root;
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root, '**/*'));
+        IgnoreFile.load(root).then(ignore => this.ignore = ignore);
+        const onChange = (uri: vscode.Uri) => {
+            const relative = path.posix.relative(root.path, uri.path);
+            if (!relative || relative.startsWith('..') || relative.split('/').some(part => SKIPPED_DIRS.has(part))) return;
+            if (relative === IGNORE_FILE) {
+                IgnoreFile.load(root).then(ignore => this.ignore = ignore);
+            } else if (this.ignore?.ignores(relative)) {
+                return;
+            }
+            this.dirty.add(relative);
+            this.updateStatus();
+            if (this.pushTimer) clearTimeout(this.pushTimer);
+            this.pushTimer = setTimeout(() => this.enqueue(() => this.pushChanges(false), false), PUSH_DELAY);
+        };
+        this.watcher.onDidChange(onChange);
+        this.watcher.onDidCreate(onChange);
+        this.watcher.onDidDelete(onChange);
+        this.schedulePull();
+    }
+
+    private stop() {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this.ignore = undefined;
+        if (this.pushTimer) clearTimeout(this.pushTimer);
+        if (this.pullTimer) clearInterval(this.pullTimer);
+        this.pushTimer = undefined;
+        this.pullTimer = undefined;
+        this.dirty.clear();
+        this.remoteFiles = undefined;
+    }
+
+    private schedulePull() {
+        if (this.pullTimer) clearInterval(this.pullTimer);
+        this.pullTimer = undefined;
+        const interval = Config.syncInterval;
+        if (this.link && interval > 0) {
+            this.pullTimer = setInterval(() => {
+                // Offline pulls would only fail; the connectivity monitor resumes us
+                if (ConnectivityMonitor.get().isOnline) this.pull();
+            }, interval * 1000);
+        }
+    }
+
+    /** Sync operations run one at a time so pushes and pulls never interleave. */
+    private enqueue(operation: () => Promise<void>, interactive: boolean): Promise<void> {
+        const run = async () => {
+            if (!this.link) return;
+            this.syncing = true;
+            this.updateStatus();
+            try {
+                await operation();
+                this.error = undefined;
+            } catch (e: any) {
+                this.error = e instanceof NetworkError ? 'Offline - will retry when the server is reachable' : e.message;
+                this.outputChannel.appendLine(`Folder sync failed: ${e.message}`);
+                if (interactive) showApiError(e, 'Sync failed');
+            } finally {
+                this.syncing = false;
+                await this.save();
+                this.updateStatus();
+            }
+        };
+        this.queue = this.queue.then(run, run);
+        return this.queue;
+    }
+
+    /**
+     * Uploads what changed locally. The watcher's pushes only look at the
+     * paths it reported; a full push, as on link or startup, compares the
+     * whole folder. Files matched by `.reflexibleignore` are left alone on
+     * both sides.
+     */
+    private async pushChanges(full = true) {
+        const changed = full ? undefined : [...this.dirty];
+        this.dirty.clear();
+        const client = ReflexibleClient.for(this.context);
+        const ignore = await IgnoreFile.load(this.root);
+        const local = changed ? await this.hashPaths(changed, ignore) : await this.hashLocal(ignore);
+        const inScope = (file: string) => !changed || changed.some(p => file === p || file.startsWith(p + '/'));
+        const remote = await this.listRemote();
+        let unversioned = 0;
+
+        for (const [file, localHash] of local) {
+            const state = this.synced[file];
+            if (this.conflicts.has(file) || state?.localHash === localHash) continue;
+            const remoteFile = remote.get(file);
+
+            if (remoteFile && !state) {
+                // Present on both sides but never synced: fine if identical
+                const remoteHash = hash(await client.downloadFile(this.link!.projectId, file));
+                if (remoteHash === localHash) {
+                    this.synced[file] = { localHash, remoteVersion: versionOf(remoteFile) };
+                } else {
+                    this.markConflict(file);
+                }
+                continue;
+            }
+            if (remoteFile && state && versionOf(remoteFile) !== state.remoteVersion) {
+                this.markConflict(file);
+                continue;
+            }
+            try {
+                // The listing may be a little old; If-Match catches a server copy that moved on since
+                await this.saveRemote(file, await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.root, file)), localHash, remoteFile?.etag);
+            } catch (e) {
+                if (!(e instanceof ConflictError)) throw e;
+                this.markConflict(file);
+                continue;
+            }
+            if (this.synced[file].remoteVersion === undefined) unversioned++;
+            this.outputChannel.appendLine(`Pushed ${file}`);
+        }
+
+        // Deleted locally: delete remotely unless the server copy moved on meanwhile
+        for (const file of Object.keys(this.synced)) {
+            if (!inScope(file) || local.has(file) || this.conflicts.has(file) || ignore.ignores(file)) continue;
+            if (changed && await this.exists(file)) continue;
+            const remoteFile = remote.get(file);
+            if (remoteFile && versionOf(remoteFile) !== this.synced[file].remoteVersion) {
+                this.markConflict(file);
+                continue;
+            }
+            if (remoteFile) {
+                await client.deleteFile(this.link!.projectId, remoteFile.id);
+                remote.delete(file);
+                this.outputChannel.appendLine(`Deleted remote ${file}`);
+            }
+            delete this.synced[file];
+        }
+
+        // Record the versions the server assigned where the save did not say
+        if (unversioned > 0) {
+            const listed = await this.listRemote(true);
+            for (const [file, state] of Object.entries(this.synced)) {
+                const remoteFile = listed.get(file);
+                if (state.remoteVersion === undefined && remoteFile) state.remoteVersion = versionOf(remoteFile);
+            }
+        }
+    }
+
+    /**
+     * Saves a local file to the project and records it as synced. Without an
+     * ETag in the response, or for a file the listing has no ID for yet, the
+     * cached listing is dropped so the next use refetches it.
+     */
+    private async saveRemote(file: string, data: Uint8Array, localHash: string, ifMatch?: string) {
+        const etag = await ReflexibleClient.for(this.context).saveFile(this.link!.projectId, file, data, ifMatch);
+        this.synced[file] = { localHash, remoteVersion: etag };
+        const listed = this.remoteFiles?.get(file);
+        if (etag && listed) {
+            this.remoteFiles!.set(file, { ...listed, etag, size: data.length });
+        } else {
+            this.remoteFiles = undefined;
+        }
+    }
+
+    private async pullChanges() {
+        const remote = await this.listRemote(true);
+        const ignore = await IgnoreFile.load(this.root);
+        const local = await this.hashLocal(ignore);
+
+        for (const [file, remoteFile] of remote) {
+            const state = this.synced[file];
+            if (this.conflicts.has(file) || ignore.ignores(file) || (state && state.remoteVersion === versionOf(remoteFile))) continue;
+
+            const localHash = local.get(file);
+            const locallyChanged = localHash !== undefined && localHash !== state?.localHash;
+            if (locallyChanged) {
+                // Unless both sides happen to hold the same bytes
+                const data = await ReflexibleClient.for(this.context).downloadFile(this.link!.projectId, file);
+                if (hash(data) === localHash) {
+                    this.synced[file] = { localHash, remoteVersion: versionOf(remoteFile) };
+                } else {
+                    this.markConflict(file);
+                }
+                continue;
+            }
+            await this.download(file, remoteFile);
+        }
+
+        // Deleted remotely: delete locally unless edited meanwhile (the next push re-uploads it)
+        for (const file of Object.keys(this.synced)) {
+            if (remote.has(file) || this.conflicts.has(file) || ignore.ignores(file)) continue;
+            const localHash = local.get(file);
+            if (localHash === this.synced[file].localHash) {
+                await vscode.workspace.fs.delete(vscode.Uri.joinPath(this.root, file));
+                this.outputChannel.appendLine(`Deleted local ${file}`);
+                delete this.synced[file];
+            } else if (localHash === undefined) {
+                delete this.synced[file];
+            }
+        }
+    }
+
+    private async upload(file: string) {
+        const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.root, file));
+        await this.saveRemote(file, data, hash(data));
+        if (this.synced[file].remoteVersion === undefined) {
+            const remoteFile = (await this.listRemote(true)).get(file);
+            this.synced[file].remoteVersion = remoteFile && versionOf(remoteFile);
+        }
+        this.outputChannel.appendLine(`Pushed ${file}`);
+    }
+
+    private async download(file: string, remoteFile: ProjectFile) {
+        const data = await ReflexibleClient.for(this.context).downloadFile(this.link!.projectId, file);
+        const target = vscode.Uri.joinPath(this.root, file);
+        // Recorded before writing so the watcher's echo is recognised as already synced
+        this.synced[file] = { localHash: hash(data), remoteVersion: versionOf(remoteFile) };
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, '..'));
+        await vscode.workspace.fs.writeFile(target, data);
+        this.outputChannel.appendLine(`Pulled ${file}`);
+    }
+
+    private markConflict(file: string) {
+        if (!this.conflicts.has(file)) {
+            this.conflicts.add(file);
+            this.outputChannel.appendLine(`Sync conflict: ${file} changed locally and on the server`);
+        }
+    }
+
+    /**
+     * The project's files by local relative path; the cached listing unless
+     * `fresh` or there is none. Files whose paths lead outside the folder are
+     * left out, so nothing here reads, writes or deletes them.
+     */
+    private async listRemote(fresh = false): Promise<Map<string, ProjectFile>> {
+        if (!this.remoteFiles || fresh) {
+            const files = await ReflexibleClient.for(this.context).listFiles(this.link!.projectId);
+            this.remoteFiles = new Map();
+            for (const file of files) {
+                const relative = localRelativePath(file.path);
+                if (relative) {
+                    this.remoteFiles.set(relative, file);
+                } else {
+                    this.outputChannel.appendLine(`Not syncing ${file.path}: its path leads outside ${this.root.fsPath}`);
+                }
+            }
+        }
+        return this.remoteFiles;
+    }
+
+    /** Content hash of every file under the linked folder that is not ignored, keyed by relative path. */
+    private async hashLocal(ignore: IgnoreFile): Promise<Map<string, string>> {
+        const result = new Map<string, string>();
+        await this.walk(this.root, '', ignore, result);
+        return result;
+    }
+
+    /** Like `hashLocal`, for just these files and folders; paths that no longer exist are left out. */
+    private async hashPaths(paths: string[], ignore: IgnoreFile): Promise<Map<string, string>> {
+        const result = new Map<string, string>();
+        for (const file of paths) {
+            if (ignore.ignores(file)) continue;
+            const uri = vscode.Uri.joinPath(this.root, file);
+            let type: vscode.FileType;
+            try {
+                type = (await vscode.workspace.fs.stat(uri)).type;
+            } catch {
+                continue;
+            }
+            if (type & vscode.FileType.Directory) {
+                await this.walk(uri, file + '/', ignore, result);
+            } else if (type & vscode.FileType.File) {
+                result.set(file, hash(await vscode.workspace.fs.readFile(uri)));
+            }
+        }
+        return result;
+    }
+
+    private async walk(dir: vscode.Uri, prefix: string, ignore: IgnoreFile, result: Map<string, string>) {
+        for (const [name, type] of await vscode.workspace.fs.readDirectory(dir)) {
+            const child = vscode.Uri.joinPath(dir, name);
+            const relative = prefix + name;
+            if (type & vscode.FileType.Directory) {
+                if (!SKIPPED_DIRS.has(name)) await this.walk(child, relative + '/', ignore, result);
+            } else if (type & vscode.FileType.File && !ignore.ignores(relative)) {
+                result.set(relative, hash(await vscode.workspace.fs.readFile(child)));
+            }
+        }
+    }
+
+    private async exists(file: string): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.joinPath(this.root, file));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private async save() {
+        await this.context.workspaceState.update(LINK_KEY, this.link);
+        await this.context.workspaceState.update(STATE_KEY, this.synced);
+    }
+
+    private updateStatus() {
+        this._onDidChangeState.fire();
+        this.statusBar.updateSync(this.link && {
+            projectName: this.link.projectName,
+            syncing: this.syncing,
+            pending: this.dirty.size,
+            conflicts: this.conflicts.size,
+            error: this.error
+        });
+    }
+
+    dispose() {
+        this.stop();
+        this.disposables.forEach(d => d.dispose());
+        this._onDidChangeState.dispose();
+    }
+}
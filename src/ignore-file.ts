@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+
+export const IGNORE_FILE = '.reflexibleignore';
+
+interface IgnoreRule {
+    pattern: RegExp;
+    negated: boolean;
+    dirOnly: boolean;
+}
+
+/**
+ * Patterns from a `.reflexibleignore` file, using the `.gitignore` syntax:
+ * `#` comments, `!` to re-include, a trailing `/` for folders only, a `/`
+ * anywhere but the end to anchor at the folder root, and `*`, `**` and `?`
+ * wildcards. Later patterns win over earlier ones.
+ */
+export class IgnoreFile {
+    private constructor(private readonly rules: IgnoreRule[]) {}
+
+    static parse(text: string): IgnoreFile {
+        const rules: IgnoreRule[] = [];
+        for (const raw of text.split(/\r?\n/)) {
+            let line = raw.replace(/(?<!\\)\s+$/, '');
+            if (!line || line.startsWith('#')) continue;
+
+            const negated = line.startsWith('!');
+            if (negated) line = line.slice(1);
+            line = line.replace(/^\\([#!])/, '$1');
+            const dirOnly = line.endsWith('/');
+            if (dirOnly) line = line.slice(0, -1);
+            if (!line) continue;
+
+            rules.push({ pattern: compileGlob(line), negated, dirOnly });
+        }
+        return new IgnoreFile(rules);
+    }
+
+    /** Reads `.reflexibleignore` from the root of `folder`; no file ignores nothing. */
+    static async load(folder: vscode.Uri): Promise<IgnoreFile> {
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, IGNORE_FILE));
+            return IgnoreFile.parse(Buffer.from(data).toString('utf-8'));
+        } catch {
+            return new IgnoreFile([]);
+        }
+    }
+
+    /** Whether a file, given by its `/`-separated path relative to the folder, is ignored. */
+    ignores(relativePath: string): boolean {
+        // A file inside an ignored folder stays ignored, like git
+        const parts = relativePath.split('/');
+        for (let i = 1; i < parts.length; i++) {
+            if (this.matches(parts.slice(0, i).join('/'), true)) return true;
+        }
+        return this.matches(relativePath, false);
+    }
+
+    private matches(path: string, isDir: boolean): boolean {
+        let ignored = false;
+        for (const rule of this.rules) {
+            if (rule.dirOnly && !isDir) continue;
+            if (rule.pattern.test(path)) ignored = !rule.negated;
+        }
+        return ignored;
+    }
+}
+
+/**
+ * Compiles a `.gitignore`-style glob for matching `/`-separated relative
+ * paths. A pattern without a `/` matches in any folder; with one it is
+ * anchored at the root.
+ */
+export function compileGlob(glob: string): RegExp {
+    const anchored = glob.includes('/');
+    const body = toRegExp(glob.startsWith('/') ? glob.slice(1) : glob);
+    return new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+}
+
+function toRegExp(glob: string): string {
+    let out = '';
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*' && glob[i + 1] === '*') {
+            const slashAfter = glob[i + 2] === '/';
+            if ((i === 0 || glob[i - 1] === '/') && (slashAfter || i + 2 === glob.length)) {
+                // `**/` matches zero or more folders, a trailing `**` everything below
+                out += slashAfter ? '(?:.*/)?' : '.*';
+                i += slashAfter ? 2 : 1;
+                continue;
+            }
+            out += '[^/]*';
+            i++;
+        } else if (c === '*') {
+            out += '[^/]*';
+        } else if (c === '?') {
+            out += '[^/]';
+        } else if (c === '\\' && i + 1 < glob.length) {
+            out += escapeRegExp(glob[++i]);
+        } else {
+            out += escapeRegExp(c);
+        }
+    }
+    return out;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { ReflexibleClient } from './client';
+import { Project, ProjectFile } from './api-types';
+
+const PAGE_SIZE = 500;
+/** Cached listings older than this are revalidated in the background */
+const REVALIDATE_AFTER = 30000;
+
+export interface FileListing {
+    files: ProjectFile[];
+    /** More files are available through `loadMore` */
+    hasMore: boolean;
+}
+
+interface CachedFiles {
+    files: ProjectFile[];
+    nextCursor?: string;
+    /** ETag of the first page */
+    etag?: string;
+    fetchedAt: number;
+}
+
+/**
+ * In-memory project and file listings for the Projects view. Cached data is
+ * served straight away and revalidated in the background with
+ * `If-None-Match` once it is old or has been invalidated; `onDidChange`
+ * fires when a revalidation brings something new. File listings are loaded
+ * a page at a time.
+ */
+export class ListingCache implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<string>();
+    /** Fires with the project whose files changed */
+    readonly onDidChange = this._onDidChange.event;
+
+    private projectList: { projects: Project[], etag?: string } | undefined;
+    private readonly files = new Map<string, CachedFiles>();
+    private readonly inFlight = new Map<string, Promise<void>>();
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    private get client(): ReflexibleClient {
+        return ReflexibleClient.for(this.context);
+    }
+
+    /** Fetches the project list, or confirms the cached one is still current. */
+    async projects(): Promise<Project[]> {
+        const result = await this.client.listProjectsIfChanged(this.projectList?.etag);
+        if (result.data || !this.projectList) {
+            this.projectList = { projects: result.data ?? [], etag: result.etag };
+        }
+        return this.projectList.projects;
+    }
+
+    /** Cached files of a project, starting a background revalidation if they are old. */
+    peekFiles(projectId: string): FileListing | undefined {
+        const cached = this.files.get(projectId);
+        if (!cached) return undefined;
+        if (Date.now() - cached.fetchedAt > REVALIDATE_AFTER) {
+            this.revalidate(projectId).catch(() => {
+                // Keep showing what we have; the next expansion tries again
+            });
+        }
+        return { files: cached.files, hasMore: cached.nextCursor !== undefined };
+    }
+
+    /** Loads the first page of a project's files if nothing is cached yet. */
+    async loadFiles(projectId: string): Promise<FileListing> {
+        if (!this.files.has(projectId)) await this.revalidate(projectId);
+        const cached = this.files.get(projectId)!;
+        return { files: cached.files, hasMore: cached.nextCursor !== undefined };
+    }
+
+    /** Appends the next page of a project's files. */
+    async loadMore(projectId: string): Promise<void> {
+        const cached = this.files.get(projectId);
+        if (!cached?.nextCursor) return;
+        await this.once(`more:${projectId}`, async () => {
+            const page = (await this.client.listFilesPage(projectId, { cursor: cached.nextCursor, limit: PAGE_SIZE })).data!;
+            // The listing may have been replaced while the page was loading
+            if (this.files.get(projectId) !== cached) return;
+            cached.files = [...cached.files, ...page.files];
+            cached.nextCursor = page.nextCursor;
+            this._onDidChange.fire(projectId);
+        });
+    }
+
+    /**
+     * Marks a project's files as out of date after a change made from here.
+     * The cached listing stays visible until the revalidation completes.
+     */
+    invalidate(projectId: string): void {
+        const cached = this.files.get(projectId);
+        if (cached) cached.fetchedAt = 0;
+    }
+
+    private revalidate(projectId: string): Promise<void> {
+        return this.once(projectId, async () => {
+            const cached = this.files.get(projectId);
+            const result = await this.client.listFilesPage(projectId, { limit: PAGE_SIZE }, cached?.etag);
+            if (!result.data && cached) {
+                cached.fetchedAt = Date.now();
+                return;
+            }
+            // A changed listing restarts from its first page
+            this.files.set(projectId, {
+                files: result.data?.files ?? [],
+                nextCursor: result.data?.nextCursor,
+                etag: result.etag,
+                fetchedAt: Date.now()
+            });
+            if (cached) this._onDidChange.fire(projectId);
+        });
+    }
+
+    /** Shares one request between concurrent callers. */
+    private once(key: string, load: () => Promise<void>): Promise<void> {
+        let pending = this.inFlight.get(key);
+        if (!pending) {
+            pending = load().finally(() => this.inFlight.delete(key));
+            this.inFlight.set(key, pending);
+        }
+        return pending;
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,229 @@
+import { tokenize } from './rfx-lexer';
+
+interface HighlightLanguage {
+    keywords: Set<string>;
+    ignoreCase: boolean;
+}
+
+const RFX_LANGUAGE: HighlightLanguage = {
+    ignoreCase: true,
+    keywords: new Set([
+        'PROGRAM', 'PROCESS', 'STATE', 'TACT', 'CONST', 'ENUM', 'INPUT', 'OUTPUT', 'PORT', 'SHARED', 'FROM',
+        'IMPORT', 'FOR', 'ALL', 'LOOPED', 'SET', 'NEXT', 'RESET', 'TIMER', 'TIMEOUT', 'LOOP', 'RESTART', 'START',
+        'STOP', 'ERROR', 'IN', 'ACTIVE', 'INACTIVE', 'IF', 'ELSE', 'SWITCH', 'CASE', 'DEFAULT', 'BREAK', 'RETURN',
+        'WHILE', 'TRUE', 'FALSE', 'ON', 'OFF', 'BOOL', 'INT', 'SHORT', 'LONG', 'FLOAT', 'DOUBLE', 'CHAR',
+        'UNSIGNED', 'SIGNED', 'VOID', 'TIME'
+    ])
+};
+
+const C_LANGUAGE: HighlightLanguage = {
+    ignoreCase: false,
+    keywords: new Set([
+        'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extern',
+        'float', 'for', 'goto', 'if', 'inline', 'int', 'long', 'register', 'return', 'short', 'signed', 'sizeof',
+        'static', 'struct', 'switch', 'typedef', 'union', 'unsigned', 'void', 'volatile', 'while', 'bool', 'true',
+        'false', 'NULL', 'uint8_t', 'uint16_t', 'uint32_t', 'int8_t', 'int16_t', 'int32_t', 'size_t', 'include',
+        'define', 'ifdef', 'ifndef', 'endif'
+    ])
+};
+
+const LANGUAGES: Record<string, HighlightLanguage> = {
+    rfx: RFX_LANGUAGE,
+    reflex: RFX_LANGUAGE,
+    c: C_LANGUAGE,
+    h: C_LANGUAGE,
+    cpp: C_LANGUAGE,
+    'c++': C_LANGUAGE,
+    hpp: C_LANGUAGE
+};
+
+/** Code block actions offered in the chat; handled by the extension host. */
+const CODE_ACTIONS: [string, string][] = [
+    ['copy', 'Copy'],
+    ['insert', 'Insert at cursor'],
+    ['newFile', 'Create new file'],
+    ['applyDiff', 'Apply as diff']
+];
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders assistant markdown to HTML for the chat webview. All input is
+ * escaped before any markup is produced, so the result never contains HTML
+ * from the message itself; links are limited to http(s) and mailto.
+ */
+export function renderMarkdown(text: string): string {
+    const lines = text.replace(/\0/g, '').replace(/\r\n?/g, '\n').split('\n');
+    const html: string[] = [];
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+            paragraph = [];
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const fence = /^\s*(```+|~~~+)\s*([\w+#.-]*)/.exec(line);
+        if (fence) {
+            flushParagraph();
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                code.push(lines[i]);
+                i++;
+            }
+            html.push(renderCodeBlock(code.join('\n'), fence[2].toLowerCase()));
+            continue;
+        }
+
+        if (line.trim() === '') {
+            flushParagraph();
+            continue;
+        }
+
+        const heading = /^(#{1,6})\s+(.*?)\s*#*$/.exec(line);
+        if (heading) {
+            flushParagraph();
+            const level = heading[1].length;
+            html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+            continue;
+        }
+
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            flushParagraph();
+            html.push('<hr>');
+            continue;
+        }
+
+        if (/^\s*>/.test(line)) {
+            flushParagraph();
+            const quoted: string[] = [];
+            while (i < lines.length && /^\s*>/.test(lines[i])) {
+                quoted.push(lines[i].replace(/^\s*>\s?/, ''));
+                i++;
+            }
+            i--;
+            html.push(`<blockquote>${renderMarkdown(quoted.join('\n'))}</blockquote>`);
+            continue;
+        }
+
+        const listItem = /^\s*([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+        if (listItem) {
+            flushParagraph();
+            const ordered = /\d/.test(listItem[1]);
+            const items: string[] = [];
+            while (i < lines.length) {
+                const item = /^\s*([-*+]|\d+[.)])\s+(.*)$/.exec(lines[i]);
+                if (item && /\d/.test(item[1]) === ordered) {
+                    items.push(item[2]);
+                } else if (items.length > 0 && /^\s{2,}\S/.test(lines[i])) {
+                    // Indented continuation of the previous item
+                    items[items.length - 1] += ' ' + lines[i].trim();
+                } else {
+                    break;
+                }
+                i++;
+            }
+            i--;
+            const tag = ordered ? 'ol' : 'ul';
+            html.push(`<${tag}>${items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+            continue;
+        }
+
+        paragraph.push(line);
+    }
+    flushParagraph();
+
+    return html.join('\n');
+}
+
+function renderInline(text: string): string {
+    // Code spans and links are set aside so emphasis never reaches inside them
+    const spans: string[] = [];
+    const setAside = (html: string) => {
+        spans.push(html);
+        return `\0${spans.length - 1}\0`;
+    };
+
+    let result = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => setAside(`<code>${escapeHtml(code.trim())}</code>`));
+    result = escapeHtml(result);
+    result = result.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) => {
+        // The URL was escaped along with the text, so undo that before checking it
+        const href = url.replace(/&amp;/g, '&');
+        if (!/^(https?:|mailto:)/i.test(href)) return label;
+        return setAside(`<a href="${escapeHtml(href)}">${emphasize(label)}</a>`);
+    });
+
+    return emphasize(result).replace(/\0(\d+)\0/g, (_, index: string) => spans[Number(index)]);
+}
+
+function emphasize(html: string): string {
+    return html
+        .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+        .replace(/__(?=\S)([\s\S]*?\S)__/g, '<strong>$1</strong>')
+        .replace(/(^|[^*\w])\*(?=\S)([^*]*?\S)\*(?!\w)/g, '$1<em>$2</em>')
+        .replace(/(^|[^_\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+}
+
+function renderCodeBlock(code: string, language: string): string {
+    const buttons = CODE_ACTIONS
+        .map(([action, label]) => `<button data-code-action="${action}">${label}</button>`)
+        .join('');
+    const languageLabel = language ? escapeHtml(language) : 'text';
+    return `<div class="code-block" data-language="${escapeHtml(language)}">`
+        + `<div class="code-toolbar"><span class="code-language">${languageLabel}</span>${buttons}</div>`
+        + `<pre><code>${highlightCode(code, language)}</code></pre>`
+        + '</div>';
+}
+
+/**
+ * Wraps keywords, strings, numbers and comments in `tok-*` spans. RFX and C
+ * share enough lexical structure that the RFX lexer handles both.
+ */
+export function highlightCode(code: string, language: string): string {
+    const highlight = LANGUAGES[language];
+    if (!highlight) return escapeHtml(code);
+
+    const { tokens, comments } = tokenize(code);
+    const pieces = [
+        ...tokens.filter(t => t.kind !== 'eof').map(t => ({ start: t.range.start.offset, end: t.range.end.offset, kind: t.kind as string, text: t.text })),
+        ...comments.map(c => ({ start: c.range.start.offset, end: c.range.end.offset, kind: 'comment', text: c.text }))
+    ].sort((a, b) => a.start - b.start);
+
+    let html = '';
+    let offset = 0;
+    for (const piece of pieces) {
+        html += escapeHtml(code.slice(offset, piece.start));
+        const className = tokenClass(piece.kind, piece.text, highlight);
+        html += className ? `<span class="${className}">${escapeHtml(piece.text)}</span>` : escapeHtml(piece.text);
+        offset = piece.end;
+    }
+    return html + escapeHtml(code.slice(offset));
+}
+
+function tokenClass(kind: string, text: string, language: HighlightLanguage): string | undefined {
+    switch (kind) {
+        case 'comment':
+            return 'tok-comment';
+        case 'string':
+            return 'tok-string';
+        case 'number':
+            return 'tok-number';
+        case 'identifier':
+            return language.keywords.has(language.ignoreCase ? text.toUpperCase() : text) ? 'tok-keyword' : undefined;
+        default:
+            return undefined;
+    }
+}
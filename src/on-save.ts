@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import { Config } from './config';
+import { RfxDiagnostics } from './diagnostics';
+import { StatusBarManager } from './status-bar';
+import { compileDocument, verifyDocument, isAbortError, RunResult } from './commands';
+
+type RunKind = 'compile' | 'verify';
+
+interface PendingRun {
+    timer?: NodeJS.Timeout;
+    controller?: AbortController;
+}
+
+/**
+ * Runs compile/verify when an `.rfx` document is saved (opt-in via settings).
+ * Saves are debounced per document, and a newer save aborts any request still
+ * in flight for the same document. Results go to the status bar and Problems
+ * panel only; the Output channel is written but never revealed.
+ */
+export class OnSaveRunner implements vscode.Disposable {
+    private readonly pending = new Map<string, PendingRun>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly diagnostics: RfxDiagnostics,
+        private readonly statusBar: StatusBarManager
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(doc => this.onDidSave(doc)),
+            vscode.workspace.onDidCloseTextDocument(doc => {
+                this.cancel(doc.uri, 'compile');
+                this.cancel(doc.uri, 'verify');
+            }),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('reflexible.compileOnSave') && !Config.compileOnSave) this.cancelAll('compile');
+                if (e.affectsConfiguration('reflexible.verifyOnSave') && !Config.verifyOnSave) this.cancelAll('verify');
+            })
+        );
+    }
+
+    private onDidSave(doc: vscode.TextDocument): void {
+        if (doc.languageId !== 'rfx') return;
+        if (Config.compileOnSave) this.schedule(doc, 'compile');
+        if (Config.verifyOnSave) this.schedule(doc, 'verify');
+    }
+
+    private schedule(doc: vscode.TextDocument, kind: RunKind): void {
+        // The new save supersedes whatever is pending or running
+        this.cancel(doc.uri, kind, true);
+
+        const run: PendingRun = {};
+        run.timer = setTimeout(() => {
+            run.timer = undefined;
+            this.run(doc, kind, run);
+        }, Math.max(0, Config.onSaveDelay));
+        this.pending.set(this.key(doc.uri, kind), run);
+    }
+
+    private async run(doc: vscode.TextDocument, kind: RunKind, run: PendingRun): Promise<void> {
+        const controller = new AbortController();
+        run.controller = controller;
+
+        const fileName = vscode.workspace.asRelativePath(doc.uri);
+        const label = kind === 'compile' ? 'Compiling' : 'Verifying';
+        this.statusBar.showRunning(label, fileName);
+
+        try {
+            const execute = kind === 'compile' ? compileDocument : verifyDocument;
+            const result: RunResult = await execute(this.context, this.outputChannel, this.diagnostics, doc, {
+                signal: controller.signal
+            });
+            // Aborted: a newer run took over, or cancel() already reset the status bar
+            if (controller.signal.aborted) return;
+            const doneLabel = kind === 'compile'
+                ? (result.success ? 'Compiled' : 'Compile failed')
+                : (result.success ? 'Verified' : 'Verify failed');
+            this.statusBar.showRunResult(doneLabel, fileName, result.success, result.problemCount);
+        } catch (e: any) {
+            if (isAbortError(e) || controller.signal.aborted) return;
+            this.outputChannel.appendLine(`${kind === 'compile' ? 'Compile' : 'Verify'} on save failed: ${e.message}`);
+            this.statusBar.showRunResult(kind === 'compile' ? 'Compile error' : 'Verify error', fileName, false, 0);
+        } finally {
+            const key = this.key(doc.uri, kind);
+            if (this.pending.get(key) === run) this.pending.delete(key);
+        }
+    }
+
+    /**
+     * Stops a pending or running run. Unless a newer save is about to take
+     * its place, a started run's spinner is cleared so it does not outlive it.
+     */
+    private cancel(uri: vscode.Uri, kind: RunKind, superseded = false): void {
+        this.cancelKey(this.key(uri, kind), superseded);
+    }
+
+    private cancelAll(kind: RunKind): void {
+        [...this.pending.keys()].filter(key => key.startsWith(`${kind}:`)).forEach(key => this.cancelKey(key));
+    }
+
+    private cancelKey(key: string, superseded = false): void {
+        const run = this.pending.get(key);
+        if (!run) return;
+        if (run.timer) clearTimeout(run.timer);
+        run.controller?.abort();
+        this.pending.delete(key);
+        if (run.controller && !superseded) this.resetStatus();
+    }
+
+    /** Hides the run item unless another document's run is still showing on it. */
+    private resetStatus(): void {
+        if (![...this.pending.values()].some(run => run.controller)) this.statusBar.hideRun();
+    }
+
+    private key(uri: vscode.Uri, kind: RunKind): string {
+        return `${kind}:${uri.toString()}`;
+    }
+
+    dispose(): void {
+        for (const run of this.pending.values()) {
+            if (run.timer) clearTimeout(run.timer);
+            run.controller?.abort();
+        }
+        this.pending.clear();
+        this.statusBar.hideRun();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as s from './schema';
+import { SchemaIssue } from './schema';
+import { REMOTE_SCHEME } from './file-sync';
+
+export const BINDING_FILE = '.reflexible.json';
+
+const ProjectBindingSchema = s.object({
+    projectId: s.nonEmptyString(),
+    projectName: s.optional(s.string()),
+    computeMode: s.optional(s.literal('chat', 'basic', 'pro')),
+    outputDirectory: s.optional(s.string()),
+    verifyCheckLevel: s.optional(s.string()),
+    target: s.optional(s.string()),
+    upload: s.optional(s.object({
+        include: s.optional(s.array(s.string())),
+        exclude: s.optional(s.array(s.string()))
+    }))
+});
+export type ProjectBinding = s.Infer<typeof ProjectBindingSchema>;
+
+/**
+ * The `.reflexible.json` manifests at the root of workspace folders, which
+ * bind a folder to a project and carry per-project defaults. Files are read
+ * on first use and re-read when they change. An invalid file is reported
+ * once and treated as absent.
+ */
+export class ProjectBindings implements vscode.Disposable {
+    private static instance: ProjectBindings | undefined;
+
+    static get(): ProjectBindings {
+        if (!ProjectBindings.instance) {
+            ProjectBindings.instance = new ProjectBindings();
+        }
+        return ProjectBindings.instance;
+    }
+
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.WorkspaceFolder>();
+    /** Fires when a folder's binding file is created, edited or deleted */
+    readonly onDidChange = this._onDidChange.event;
+
+    private readonly cache = new Map<string, Promise<ProjectBinding | undefined>>();
+    private readonly disposables: vscode.Disposable[];
+
+    private constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${BINDING_FILE}`);
+        const onChange = (uri: vscode.Uri) => {
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            // Only the file at the root of a folder counts
+            if (!folder || vscode.Uri.joinPath(folder.uri, BINDING_FILE).toString() !== uri.toString()) return;
+            this.cache.delete(folder.uri.toString());
+            this._onDidChange.fire(folder);
+        };
+        this.disposables = [
+            watcher,
+            watcher.onDidCreate(onChange),
+            watcher.onDidChange(onChange),
+            watcher.onDidDelete(onChange),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.cache.clear()),
+            this._onDidChange
+        ];
+    }
+
+    forFolder(folder: vscode.WorkspaceFolder | undefined): Promise<ProjectBinding | undefined> {
+        if (!folder || folder.uri.scheme === REMOTE_SCHEME) return Promise.resolve(undefined);
+        const key = folder.uri.toString();
+        let binding = this.cache.get(key);
+        if (!binding) {
+            binding = this.read(folder);
+            this.cache.set(key, binding);
+        }
+        return binding;
+    }
+
+    /** Binding of the workspace folder that contains `uri`. */
+    forUri(uri: vscode.Uri): Promise<ProjectBinding | undefined> {
+        return this.forFolder(vscode.workspace.getWorkspaceFolder(uri));
+    }
+
+    /** The first workspace folder bound to `projectId`, with its binding. */
+    async findProject(projectId: string): Promise<{ folder: vscode.WorkspaceFolder, binding: ProjectBinding } | undefined> {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const binding = await this.forFolder(folder);
+            if (binding?.projectId === projectId) return { folder, binding };
+        }
+        return undefined;
+    }
+
+    /**
+     * Points `folder` at a project, keeping the other settings and any keys
+     * this version does not know about.
+     */
+    async write(folder: vscode.WorkspaceFolder, projectId: string, projectName: string): Promise<vscode.Uri> {
+        const uri = vscode.Uri.joinPath(folder.uri, BINDING_FILE);
+        let existing: Record<string, unknown> = {};
+        try {
+            const parsed = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'));
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) existing = parsed;
+        } catch {
+            // No file yet, or one we cannot read: start over
+        }
+        const content = JSON.stringify({ ...existing, projectId, projectName }, null, 2) + '\n';
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+        this.cache.delete(folder.uri.toString());
+        this._onDidChange.fire(folder);
+        return uri;
+    }
+
+    private async read(folder: vscode.WorkspaceFolder): Promise<ProjectBinding | undefined> {
+        const uri = vscode.Uri.joinPath(folder.uri, BINDING_FILE);
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+        } catch {
+            return undefined;
+        }
+        try {
+            const binding = ProjectBindingSchema.parse(JSON.parse(text));
+            if (binding.outputDirectory !== undefined && !isInsideFolder(binding.outputDirectory)) {
+                throw new SchemaIssue('outputDirectory', 'a folder inside the workspace folder', binding.outputDirectory);
+            }
+            return binding;
+        } catch (e: any) {
+            const problem = e instanceof SchemaIssue ? e.message : `invalid JSON (${e.message})`;
+            vscode.window.showWarningMessage(`${folder.name}/${BINDING_FILE} is ignored: ${problem}`, 'Open File').then(choice => {
+                if (choice === 'Open File') vscode.window.showTextDocument(uri);
+            });
+            return undefined;
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.cache.clear();
+        ProjectBindings.instance = undefined;
+    }
+}
+
+/** A checked-in file must not send downloads outside its folder: no absolute paths, no `..` */
+function isInsideFolder(relativePath: string): boolean {
+    if (/^([\\/]|[a-zA-Z]:)/.test(relativePath)) return false;
+    return !relativePath.split(/[\\/]/).includes('..');
+}
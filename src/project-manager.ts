@@ -1,20 +1,48 @@
 import * as vscode from 'vscode';
-import { apiFetch } from './api';
+import { ReflexibleClient } from './client';
+import { Config } from './config';
+import { ProjectBindings } from './project-binding';
+import { associateFolder } from './workspace-folders';
 
-export async function getEphemeralProject(context: vscode.ExtensionContext): Promise<string> {
-    let projectId = context.workspaceState.get<string>('ephemeralProjectId');
+const EPHEMERAL_KEY = 'ephemeralProjectId';
+
+/**
+ * The scratch project compile and verify run in. Each workspace folder gets
+ * its own, so files with the same relative path in different folders do not
+ * overwrite each other, and the project's output goes back to that folder.
+ */
+export async function getEphemeralProject(context: vscode.ExtensionContext, folder?: vscode.WorkspaceFolder): Promise<string> {
+    const key = folder ? `${EPHEMERAL_KEY}:${folder.uri.toString()}` : EPHEMERAL_KEY;
+    let projectId = context.workspaceState.get<string>(key);
     if (!projectId) {
-        const res = await apiFetch(context, '/api/v1/projects/ephemeral', { 
-            method: 'POST', 
-            body: JSON.stringify({ name: 'VSCode Session' }) 
-        });
-        const data = await res.json() as any;
-        projectId = data.project.id;
-        await context.workspaceState.update('ephemeralProjectId', projectId);
+        const name = folder ? `VSCode Session (${folder.name})` : 'VSCode Session';
+        const project = await ReflexibleClient.for(context).createEphemeralProject(name);
+        projectId = project.id;
+        await context.workspaceState.update(key, projectId);
     }
+    if (folder) await associateFolder(context, projectId, folder);
     return projectId!;
 }
 
+/**
+ * The project a folder's compiles, verifies and uploads go to: the one bound
+ * in its `.reflexible.json`, else the `reflexible.projectId` setting, else
+ * the folder's scratch project.
+ */
+export async function resolveProject(context: vscode.ExtensionContext, folder?: vscode.WorkspaceFolder): Promise<string> {
+    const binding = await ProjectBindings.get().forFolder(folder);
+    return binding?.projectId ?? Config.projectId ?? await getEphemeralProject(context, folder);
+}
+
+/** Forgets every folder's scratch project so the next run starts a fresh one. */
+export async function resetEphemeralProjects(context: vscode.ExtensionContext): Promise<void> {
+    for (const key of context.workspaceState.keys()) {
+        if (key === EPHEMERAL_KEY || key.startsWith(EPHEMERAL_KEY + ':')) {
+            await context.workspaceState.update(key, undefined);
+        }
+    }
+}
+
 export async function cleanupEphemeralProject(
     context: vscode.ExtensionContext, 
     projectId: string,
@@ -22,10 +50,12 @@ export async function cleanupEphemeralProject(
 ): Promise<void> {
     try {
         outputChannel.appendLine('Cleaning up ephemeral project: ' + projectId);
-        await apiFetch(context, `/api/v1/projects/${projectId}/cleanup`, { 
-            method: 'DELETE' 
-        });
-        await context.workspaceState.update('ephemeralProjectId', undefined);
+        await ReflexibleClient.for(context).cleanupProject(projectId);
+        for (const key of context.workspaceState.keys()) {
+            if (key.startsWith(EPHEMERAL_KEY) && context.workspaceState.get(key) === projectId) {
+                await context.workspaceState.update(key, undefined);
+            }
+        }
         outputChannel.appendLine('Ephemeral project cleaned up');
     } catch (e) {
         outputChannel.appendLine('Failed to cleanup project: ' + e);
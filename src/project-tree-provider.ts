@@ -1,28 +1,64 @@
 import * as vscode from 'vscode';
-import { apiFetch, getApiKey } from './api';
+import * as path from 'path';
+import { getApiKey } from './api';
+import { Project, ProjectFile } from './api-types';
+import { Config } from './config';
+import { categorize, compareFiles, isBinaryFile } from './file-categories';
+import { remoteUri } from './file-sync';
+import { ListingCache } from './listing-cache';
+import { SyncDecorationProvider } from './sync-decorations';
 
 export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
     private _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined | null | void> = new vscode.EventEmitter<TreeNode | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<TreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    private projects: any[] = [];
+    private projects: Project[] = [];
     private activeProjectId: string | null = null;
+    private readonly listings: ListingCache;
+    /** Projects whose file listing failed to load, with the reason */
+    private readonly loadErrors = new Map<string, string>();
 
     constructor(
         private readonly context: vscode.ExtensionContext,
         private readonly outputChannel: vscode.OutputChannel,
-        private readonly onProjectActivated: (projectId: string, projectName: string) => void
-    ) {}
+        private readonly onProjectActivated: (projectId: string, projectName: string) => void,
+        private readonly decorations: SyncDecorationProvider
+    ) {
+        this.listings = new ListingCache(context);
+        context.subscriptions.push(
+            this.listings,
+            this.listings.onDidChange(() => this.refresh()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('reflexible.tree')) this.refresh();
+            })
+        );
+    }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Re-reads a project's files after a change made from this extension. The
+     * current listing stays visible until the new one arrives.
+     */
+    invalidate(projectId: string): void {
+        this.listings.invalidate(projectId);
+        this.refresh();
+    }
+
+    async loadMoreFiles(projectId: string): Promise<void> {
+        try {
+            await this.listings.loadMore(projectId);
+        } catch (e: any) {
+            this.outputChannel.appendLine('Failed to load more files: ' + e.message);
+            vscode.window.showErrorMessage(`Failed to load more files: ${e.message}`);
+        }
+    }
+
     async loadProjects(): Promise<void> {
         try {
-            const res = await apiFetch(this.context, '/api/projects', { method: 'GET' });
-            const data = await res.json() as any;
-            this.projects = data.projects || [];
+            this.projects = await this.listings.projects();
             this.refresh();
         } catch (e: any) {
             this.outputChannel.appendLine('Failed to load projects: ' + e.message);
@@ -40,10 +76,25 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
         return this.activeProjectId;
     }
 
+    /** Projects as last loaded, for views that list things per project */
+    getProjects(): readonly Project[] {
+        return this.projects;
+    }
+
     getTreeItem(element: TreeNode): vscode.TreeItem {
         return element;
     }
 
+    /** File tooltips include the sync and verify state shown by the decoration badge. */
+    resolveTreeItem(item: vscode.TreeItem, element: TreeNode): vscode.TreeItem {
+        if ((element.contextValue === 'file' || element.contextValue === 'binary') && element.resourceUri) {
+            const state = this.decorations.describe(element.resourceUri);
+            const filePath = (element.project as ProjectFile).path;
+            item.tooltip = state ? `${filePath}\n${state}` : filePath;
+        }
+        return item;
+    }
+
     async getChildren(element?: TreeNode): Promise<TreeNode[]> {
         // Check authentication first
         const apiKey = await getApiKey(this.context);
@@ -70,6 +121,8 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
                 );
                 // Add context menu commands via contextValue
                 node.contextValue = 'project';
+                node.projectId = project.id;
+                node.folderPath = '';
                 return node;
             });
 
@@ -84,7 +137,7 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
         }
 
         if (element.contextValue === 'project') {
-            // Project selected - show categories and activate button
+            // Project selected - show its files and an activate button
             const nodes: TreeNode[] = [];
 
             if (element.project.id !== this.activeProjectId) {
@@ -100,141 +153,151 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
                 ));
             }
 
-            // Load files and categorize
-            try {
-                const res = await apiFetch(this.context, `/api/v1/projects/${element.project.id}/files`, { method: 'GET' });
-                const data = await res.json() as any;
-                const files = data.files || [];
-
-                // Categorize files
-                const categories = this.categorizeFiles(files);
-
-                if (categories.reflex.length > 0) {
-                    nodes.push(new TreeNode(
-                        '📝 Reflex Files',
-                        vscode.TreeItemCollapsibleState.Expanded,
-                        'category',
-                        undefined,
-                        undefined,
-                        categories.reflex.map(f => new TreeNode(
-                            f.path,
-                            vscode.TreeItemCollapsibleState.None,
-                            'file',
-                            {
-                                command: 'reflexible.openFile',
-                                title: 'Open File',
-                                arguments: [element.project.id, f]
-                            },
-                            f
-                        ))
-                    ));
-                }
-
-                if (categories.config.length > 0) {
-                    nodes.push(new TreeNode(
-                        '📋 Configuration',
-                        vscode.TreeItemCollapsibleState.Collapsed,
-                        'category',
-                        undefined,
-                        undefined,
-                        categories.config.map(f => new TreeNode(
-                            f.path,
-                            vscode.TreeItemCollapsibleState.None,
-                            'file',
-                            {
-                                command: 'reflexible.openFile',
-                                title: 'Open File',
-                                arguments: [element.project.id, f]
-                            },
-                            f
-                        ))
-                    ));
-                }
-
-                if (categories.output.length > 0) {
-                    nodes.push(new TreeNode(
-                        '📦 Output',
-                        vscode.TreeItemCollapsibleState.Collapsed,
-                        'category',
-                        undefined,
-                        undefined,
-                        categories.output.map(f => new TreeNode(
-                            f.path,
-                            vscode.TreeItemCollapsibleState.None,
-                            'file',
-                            {
-                                command: 'reflexible.openFile',
-                                title: 'Open File',
-                                arguments: [element.project.id, f]
-                            },
-                            f
-                        ))
-                    ));
-                }
-
-                if (categories.binary.length > 0) {
-                    nodes.push(new TreeNode(
-                        '💾 Binaries',
-                        vscode.TreeItemCollapsibleState.Collapsed,
-                        'category',
-                        undefined,
-                        undefined,
-                        categories.binary.map(f => new TreeNode(
-                            f.path,
-                            vscode.TreeItemCollapsibleState.None,
-                            'binary',
-                            {
-                                command: 'reflexible.downloadBinary',
-                                title: 'Download Binary',
-                                arguments: [element.project.id, f]
-                            },
-                            f
-                        ))
-                    ));
-                }
+            const projectId: string = element.project.id;
+            const listing = this.listings.peekFiles(projectId);
+            const loadError = this.loadErrors.get(projectId);
+            if (!listing && loadError !== undefined) {
+                // Shown once; the next expansion or refresh tries again
+                this.loadErrors.delete(projectId);
+                const errorNode = new TreeNode(
+                    '⚠️ Failed to load files',
+                    vscode.TreeItemCollapsibleState.None,
+                    'error'
+                );
+                errorNode.tooltip = loadError;
+                nodes.push(errorNode);
+                return nodes;
+            }
+            if (!listing) {
+                this.listings.loadFiles(projectId)
+                    .catch((e: any) => {
+                        this.outputChannel.appendLine('Failed to load files: ' + e.message);
+                        this.loadErrors.set(projectId, e.message);
+                    })
+                    .finally(() => this.refresh());
+                const loadingNode = new TreeNode('Loading files...', vscode.TreeItemCollapsibleState.None, 'loading');
+                loadingNode.iconPath = new vscode.ThemeIcon('loading~spin');
+                nodes.push(loadingNode);
+                return nodes;
+            }
 
-            } catch (e: any) {
-                this.outputChannel.appendLine('Failed to load files: ' + e.message);
+            nodes.push(...(Config.treeViewMode === 'categories'
+                ? this.categoryNodes(projectId, listing.files)
+                : this.folderNodes(projectId, buildFolderTree(listing.files))));
+            if (listing.hasMore) {
+                const moreNode = new TreeNode(
+                    `⋯ Load more files (${listing.files.length} shown)`,
+                    vscode.TreeItemCollapsibleState.None,
+                    'loadMore',
+                    { command: 'reflexible.loadMoreFiles', title: 'Load More Files', arguments: [projectId] }
+                );
+                nodes.push(moreNode);
             }
 
             return nodes;
         }
 
-        if (element.contextValue === 'category' && element.children) {
+        if ((element.contextValue === 'category' || element.contextValue === 'folder') && element.children) {
             return element.children;
         }
 
         return [];
     }
 
-    private categorizeFiles(files: any[]): { reflex: any[], config: any[], output: any[], binary: any[] } {
-        return {
-            reflex: files.filter(f => f.path.endsWith('.rfx')),
-            config: files.filter(f => 
-                f.path.endsWith('.json') || 
-                f.path.endsWith('.yaml') || 
-                f.path.endsWith('.toml')
-            ),
-            output: files.filter(f => 
-                (f.path.endsWith('.c') || 
-                f.path.endsWith('.h') || 
-                f.path.includes('output/') ||
-                f.path.includes('report')) &&
-                !f.path.endsWith('.uf2') &&
-                !f.path.endsWith('.bin') &&
-                !f.path.endsWith('.hex')
-            ),
-            binary: files.filter(f =>
-                f.path.endsWith('.uf2') ||
-                f.path.endsWith('.bin') ||
-                f.path.endsWith('.hex') ||
-                f.path.endsWith('.elf')
-            )
-        };
+    private categoryNodes(projectId: string, files: ProjectFile[]): TreeNode[] {
+        const categories = Config.fileCategories;
+        const compare = compareFiles(Config.treeSortBy);
+        return categorize(files, categories).map(({ category, files }, index) => new TreeNode(
+            category.icon ? `${category.icon} ${category.name}` : category.name,
+            // The first category is open, as Reflex Files always were
+            index === 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+            'category',
+            undefined,
+            undefined,
+            [...files].sort(compare).map(f => {
+                const node = this.fileNode(projectId, f, category.binary === true);
+                const dir = path.posix.dirname(f.path);
+                if (dir !== '.') node.description = dir;
+                return node;
+            })
+        ));
+    }
+
+    private folderNodes(projectId: string, folder: FolderEntry): TreeNode[] {
+        const categories = Config.fileCategories;
+        const folders = [...folder.folders.values()]
+            .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }))
+            .map(sub => {
+                const node = new TreeNode(
+                    sub.name,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'folder',
+                    undefined,
+                    undefined,
+                    this.folderNodes(projectId, sub)
+                );
+                node.resourceUri = remoteUri(projectId, sub.path);
+                node.iconPath = vscode.ThemeIcon.Folder;
+                node.projectId = projectId;
+                node.folderPath = sub.path;
+                node.tooltip = sub.path;
+                return node;
+            });
+        const files = [...folder.files]
+            .sort(compareFiles(Config.treeSortBy))
+            .map(f => this.fileNode(projectId, f, isBinaryFile(f, categories)));
+        return [...folders, ...files];
+    }
+
+    private fileNode(projectId: string, file: ProjectFile, binary: boolean): TreeNode {
+        const node = new TreeNode(
+            path.posix.basename(file.path),
+            vscode.TreeItemCollapsibleState.None,
+            binary ? 'binary' : 'file',
+            binary
+                ? { command: 'reflexible.downloadBinary', title: 'Download Binary', arguments: [projectId, file] }
+                : { command: 'reflexible.openFile', title: 'Open File', arguments: [projectId, file] },
+            file
+        );
+        // Tooltip left unset so resolveTreeItem fills it in on hover
+        node.resourceUri = remoteUri(projectId, file.path);
+        node.projectId = projectId;
+        return node;
     }
 }
 
-class TreeNode extends vscode.TreeItem {
+interface FolderEntry {
+    name: string;
+    /** Path from the project root */
+    path: string;
+    folders: Map<string, FolderEntry>;
+    files: ProjectFile[];
+}
+
+function buildFolderTree(files: ProjectFile[]): FolderEntry {
+    const root: FolderEntry = { name: '', path: '', folders: new Map(), files: [] };
+    for (const file of files) {
+        const parts = file.path.split('/').filter(part => part.length > 0);
+        let folder = root;
+        for (const part of parts.slice(0, -1)) {
+            let sub = folder.folders.get(part);
+            if (!sub) {
+                sub = { name: part, path: folder.path ? `${folder.path}/${part}` : part, folders: new Map(), files: [] };
+                folder.folders.set(part, sub);
+            }
+            folder = sub;
+        }
+        folder.files.push(file);
+    }
+    return root;
+}
+
+export class TreeNode extends vscode.TreeItem {
+    /** Project a project, folder or file node belongs to */
+    projectId?: string;
+    /** Path of a project (`''`) or folder node from the project root */
+    folderPath?: string;
+
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
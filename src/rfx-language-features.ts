@@ -0,0 +1,291 @@
+import * as vscode from 'vscode';
+import { SourceRange } from './rfx-lexer';
+import { parseRfx, RfxAst, RfxDeclaration, RfxDeclarationKind, walkDeclarations, enclosingDeclarations } from './rfx-parser';
+
+const RFX_SELECTOR: vscode.DocumentSelector = [{ language: 'rfx' }];
+
+const SYMBOL_KINDS: Record<RfxDeclarationKind, vscode.SymbolKind> = {
+    program: vscode.SymbolKind.Module,
+    process: vscode.SymbolKind.Class,
+    state: vscode.SymbolKind.Method,
+    function: vscode.SymbolKind.Function,
+    const: vscode.SymbolKind.Constant,
+    enum: vscode.SymbolKind.Enum,
+    enumMember: vscode.SymbolKind.EnumMember,
+    port: vscode.SymbolKind.Interface,
+    variable: vscode.SymbolKind.Variable
+};
+
+function toRange(range: SourceRange): vscode.Range {
+    return new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
+}
+
+/**
+ * Parses open documents at most once per version and keeps an index of
+ * `.rfx` files on disk for workspace-wide lookups.
+ */
+export class RfxDocumentCache implements vscode.Disposable {
+    private readonly documents = new Map<string, { version: number, ast: RfxAst }>();
+    private readonly files = new Map<string, RfxAst>();
+    private filesIndexed = false;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.rfx');
+        this.disposables.push(
+            watcher,
+            watcher.onDidChange(uri => this.files.delete(uri.toString())),
+            watcher.onDidCreate(() => { this.filesIndexed = false; }),
+            watcher.onDidDelete(uri => this.files.delete(uri.toString())),
+            vscode.workspace.onDidCloseTextDocument(doc => this.documents.delete(doc.uri.toString()))
+        );
+    }
+
+    get(document: vscode.TextDocument): RfxAst {
+        const key = document.uri.toString();
+        const cached = this.documents.get(key);
+        if (cached && cached.version === document.version) {
+            return cached.ast;
+        }
+        const ast = parseRfx(document.getText());
+        this.documents.set(key, { version: document.version, ast });
+        return ast;
+    }
+
+    /** Every `.rfx` file in the workspace, preferring open (possibly unsaved) documents. */
+    async all(token?: vscode.CancellationToken): Promise<{ uri: vscode.Uri, ast: RfxAst }[]> {
+        const uris = await vscode.workspace.findFiles('**/*.rfx', '**/node_modules/**');
+        if (!this.filesIndexed) {
+            const known = new Set(uris.map(u => u.toString()));
+            for (const key of this.files.keys()) {
+                if (!known.has(key)) this.files.delete(key);
+            }
+            this.filesIndexed = true;
+        }
+
+        const results: { uri: vscode.Uri, ast: RfxAst }[] = [];
+        for (const uri of uris) {
+            if (token?.isCancellationRequested) break;
+            const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+            if (open) {
+                results.push({ uri, ast: this.get(open) });
+                continue;
+            }
+            let ast = this.files.get(uri.toString());
+            if (!ast) {
+                try {
+                    const content = await vscode.workspace.fs.readFile(uri);
+                    ast = parseRfx(Buffer.from(content).toString('utf-8'));
+                    this.files.set(uri.toString(), ast);
+                } catch {
+                    continue;
+                }
+            }
+            results.push({ uri, ast });
+        }
+        return results;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.documents.clear();
+        this.files.clear();
+    }
+}
+
+export class RfxDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    constructor(private readonly cache: RfxDocumentCache) {}
+
+    provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        const convert = (decl: RfxDeclaration): vscode.DocumentSymbol => {
+            const range = toRange(decl.range);
+            const symbol = new vscode.DocumentSymbol(
+                decl.name,
+                decl.detail || '',
+                SYMBOL_KINDS[decl.kind],
+                range,
+                range.contains(toRange(decl.nameRange)) ? toRange(decl.nameRange) : range
+            );
+            symbol.children = decl.children.map(convert);
+            return symbol;
+        };
+        return this.cache.get(document).declarations.map(convert);
+    }
+}
+
+export class RfxFoldingRangeProvider implements vscode.FoldingRangeProvider {
+    constructor(private readonly cache: RfxDocumentCache) {}
+
+    provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        const ast = this.cache.get(document);
+        const ranges: vscode.FoldingRange[] = [];
+
+        for (const block of ast.blocks) {
+            // Keep the closing brace visible
+            const endLine = block.end.line - 1;
+            if (endLine > block.start.line) {
+                ranges.push(new vscode.FoldingRange(block.start.line, endLine));
+            }
+        }
+
+        const regions: number[] = [];
+        let lineCommentRun: { start: number, end: number } | undefined;
+        const flushRun = () => {
+            if (lineCommentRun && lineCommentRun.end > lineCommentRun.start) {
+                ranges.push(new vscode.FoldingRange(lineCommentRun.start, lineCommentRun.end, vscode.FoldingRangeKind.Comment));
+            }
+            lineCommentRun = undefined;
+        };
+
+        for (const comment of ast.comments) {
+            if (comment.block) {
+                flushRun();
+                if (comment.range.end.line > comment.range.start.line) {
+                    ranges.push(new vscode.FoldingRange(comment.range.start.line, comment.range.end.line, vscode.FoldingRangeKind.Comment));
+                }
+                continue;
+            }
+            if (/^\/\/\s*#?region\b/.test(comment.text)) {
+                flushRun();
+                regions.push(comment.range.start.line);
+                continue;
+            }
+            if (/^\/\/\s*#?endregion\b/.test(comment.text)) {
+                flushRun();
+                const start = regions.pop();
+                if (start !== undefined) {
+                    ranges.push(new vscode.FoldingRange(start, comment.range.start.line, vscode.FoldingRangeKind.Region));
+                }
+                continue;
+            }
+            const line = comment.range.start.line;
+            const ownLine = document.lineAt(line).firstNonWhitespaceCharacterIndex === comment.range.start.character;
+            if (ownLine && lineCommentRun && lineCommentRun.end === line - 1) {
+                lineCommentRun.end = line;
+            } else {
+                flushRun();
+                if (ownLine) lineCommentRun = { start: line, end: line };
+            }
+        }
+        flushRun();
+
+        return ranges;
+    }
+}
+
+export class RfxWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    constructor(private readonly cache: RfxDocumentCache) {}
+
+    async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+        const symbols: vscode.SymbolInformation[] = [];
+        for (const { uri, ast } of await this.cache.all(token)) {
+            walkDeclarations(ast.declarations, (decl, parents) => {
+                // Locals are noise in a workspace-wide search
+                if (decl.kind === 'variable' && parents.some(p => p.kind === 'process')) return;
+                if (!fuzzyMatch(query, decl.name)) return;
+                symbols.push(new vscode.SymbolInformation(
+                    decl.name,
+                    SYMBOL_KINDS[decl.kind],
+                    parents.map(p => p.name).join('.'),
+                    new vscode.Location(uri, toRange(decl.nameRange))
+                ));
+            });
+        }
+        return symbols;
+    }
+}
+
+export class RfxDefinitionProvider implements vscode.DefinitionProvider {
+    constructor(private readonly cache: RfxDocumentCache) {}
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[] | undefined> {
+        const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z_][A-Za-z0-9_]*/);
+        if (!wordRange) return undefined;
+        const name = document.getText(wordRange);
+        const offset = document.offsetAt(wordRange.start);
+        const ast = this.cache.get(document);
+
+        const reference = ast.references.find(r => r.range.start.offset === offset);
+        const kinds: RfxDeclarationKind[] | undefined = reference?.kind === 'state' ? ['state']
+            : reference?.kind === 'process' ? ['process']
+            : undefined;
+
+        // Innermost scope first: the enclosing process, then the program, then the file
+        const scopes = enclosingDeclarations(ast, offset).reverse();
+        for (const scope of scopes) {
+            const found = findDeclarations(scope.children, name, kinds, false);
+            if (found.length > 0) {
+                return found.map(d => new vscode.Location(document.uri, toRange(d.nameRange)));
+            }
+        }
+
+        const local = findDeclarations(ast.declarations, name, kinds, true);
+        if (local.length > 0) {
+            return local.map(d => new vscode.Location(document.uri, toRange(d.nameRange)));
+        }
+
+        // States are always local to their process; everything else may live in another file
+        if (reference?.kind === 'state') return undefined;
+
+        const locations: vscode.Location[] = [];
+        for (const { uri, ast: other } of await this.cache.all(token)) {
+            if (uri.toString() === document.uri.toString()) continue;
+            for (const decl of findDeclarations(other.declarations, name, kinds, true)) {
+                if (decl.kind === 'state' || decl.kind === 'variable') continue;
+                locations.push(new vscode.Location(uri, toRange(decl.nameRange)));
+            }
+        }
+        return locations.length > 0 ? locations : undefined;
+    }
+}
+
+function findDeclarations(
+    declarations: RfxDeclaration[],
+    name: string,
+    kinds: RfxDeclarationKind[] | undefined,
+    deep: boolean
+): RfxDeclaration[] {
+    const found: RfxDeclaration[] = [];
+    const consider = (decl: RfxDeclaration) => {
+        if (decl.name === name && (!kinds || kinds.includes(decl.kind))) found.push(decl);
+    };
+    if (deep) {
+        walkDeclarations(declarations, consider);
+    } else {
+        declarations.forEach(consider);
+        // Enum members and port fields are visible in the enclosing scope
+        declarations
+            .filter(d => d.kind === 'enum' || d.kind === 'port')
+            .forEach(d => d.children.forEach(consider));
+    }
+    return found;
+}
+
+/** Case-insensitive subsequence match, as used by the built-in symbol pickers. */
+function fuzzyMatch(query: string, name: string): boolean {
+    if (!query) return true;
+    const haystack = name.toLowerCase();
+    let index = 0;
+    for (const ch of query.toLowerCase()) {
+        index = haystack.indexOf(ch, index);
+        if (index === -1) return false;
+        index++;
+    }
+    return true;
+}
+
+export function registerRfxLanguageFeatures(context: vscode.ExtensionContext): RfxDocumentCache {
+    const cache = new RfxDocumentCache();
+    context.subscriptions.push(
+        cache,
+        vscode.languages.registerDocumentSymbolProvider(RFX_SELECTOR, new RfxDocumentSymbolProvider(cache), { label: 'Reflexible' }),
+        vscode.languages.registerFoldingRangeProvider(RFX_SELECTOR, new RfxFoldingRangeProvider(cache)),
+        vscode.languages.registerWorkspaceSymbolProvider(new RfxWorkspaceSymbolProvider(cache)),
+        vscode.languages.registerDefinitionProvider(RFX_SELECTOR, new RfxDefinitionProvider(cache))
+    );
+    return cache;
+}
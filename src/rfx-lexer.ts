@@ -0,0 +1,141 @@
+export interface SourceLocation {
+    offset: number;
+    line: number;
+    character: number;
+}
+
+export interface SourceRange {
+    start: SourceLocation;
+    end: SourceLocation;
+}
+
+export type TokenKind = 'identifier' | 'number' | 'string' | 'punctuation' | 'operator' | 'eof';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    range: SourceRange;
+}
+
+export interface Comment {
+    block: boolean;
+    text: string;
+    range: SourceRange;
+}
+
+export interface LexResult {
+    tokens: Token[];
+    comments: Comment[];
+    errors: { message: string, range: SourceRange }[];
+}
+
+const PUNCTUATION = new Set(['{', '}', '(', ')', '[', ']', ';', ',', ':', '.']);
+const TWO_CHAR_OPERATORS = new Set(['==', '!=', '<=', '>=', '&&', '||', '<<', '>>', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=']);
+
+/**
+ * Splits RFX source into tokens. Never throws: unknown characters and
+ * unterminated strings/comments are reported and lexing carries on.
+ */
+export function tokenize(text: string): LexResult {
+    const tokens: Token[] = [];
+    const comments: Comment[] = [];
+    const errors: { message: string, range: SourceRange }[] = [];
+
+    let offset = 0;
+    let line = 0;
+    let lineStart = 0;
+
+    const location = (): SourceLocation => ({ offset, line, character: offset - lineStart });
+
+    const advance = (count: number) => {
+        for (let i = 0; i < count && offset < text.length; i++) {
+            if (text[offset] === '\n') {
+                line++;
+                lineStart = offset + 1;
+            }
+            offset++;
+        }
+    };
+
+    while (offset < text.length) {
+        const ch = text[offset];
+        const next = text[offset + 1];
+
+        if (/\s/.test(ch)) {
+            advance(1);
+            continue;
+        }
+
+        const start = location();
+
+        if (ch === '/' && next === '/') {
+            const end = text.indexOf('\n', offset);
+            const stop = end === -1 ? text.length : end;
+            const commentText = text.slice(offset, stop);
+            advance(stop - offset);
+            comments.push({ block: false, text: commentText, range: { start, end: location() } });
+            continue;
+        }
+
+        if (ch === '/' && next === '*') {
+            const end = text.indexOf('*/', offset + 2);
+            const stop = end === -1 ? text.length : end + 2;
+            const commentText = text.slice(offset, stop);
+            advance(stop - offset);
+            const range = { start, end: location() };
+            comments.push({ block: true, text: commentText, range });
+            if (end === -1) errors.push({ message: 'Unterminated block comment', range });
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(offset, offset + 256))!;
+            advance(match[0].length);
+            tokens.push({ kind: 'identifier', text: match[0], range: { start, end: location() } });
+            continue;
+        }
+
+        if (/[0-9]/.test(ch)) {
+            const match = /^(0[xX][0-9A-Fa-f]+|0[bB][01]+|\d+(\.\d+)?([eE][-+]?\d+)?)[A-Za-z]*/.exec(text.slice(offset, offset + 256))!;
+            advance(match[0].length);
+            tokens.push({ kind: 'number', text: match[0], range: { start, end: location() } });
+            continue;
+        }
+
+        if (ch === '"' || ch === '\'') {
+            let i = offset + 1;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+            const terminated = text[i] === ch;
+            const stop = terminated ? i + 1 : i;
+            const value = text.slice(offset, stop);
+            advance(stop - offset);
+            const range = { start, end: location() };
+            tokens.push({ kind: 'string', text: value, range });
+            if (!terminated) errors.push({ message: 'Unterminated string literal', range });
+            continue;
+        }
+
+        if (PUNCTUATION.has(ch)) {
+            advance(1);
+            tokens.push({ kind: 'punctuation', text: ch, range: { start, end: location() } });
+            continue;
+        }
+
+        if (/[-+*/%=<>!&|^~?]/.test(ch)) {
+            const pair = ch + (next || '');
+            const op = TWO_CHAR_OPERATORS.has(pair) ? pair : ch;
+            advance(op.length);
+            tokens.push({ kind: 'operator', text: op, range: { start, end: location() } });
+            continue;
+        }
+
+        advance(1);
+        errors.push({ message: `Unexpected character '${ch}'`, range: { start, end: location() } });
+    }
+
+    const end = location();
+    tokens.push({ kind: 'eof', text: '', range: { start: end, end } });
+    return { tokens, comments, errors };
+}
@@ -0,0 +1,550 @@
+import { tokenize, Token, Comment, SourceRange } from './rfx-lexer';
+
+export type RfxDeclarationKind =
+    | 'program'
+    | 'process'
+    | 'state'
+    | 'function'
+    | 'const'
+    | 'enum'
+    | 'enumMember'
+    | 'port'
+    | 'variable';
+
+export interface RfxDeclaration {
+    kind: RfxDeclarationKind;
+    name: string;
+    /** Type or port address text, shown next to the symbol name */
+    detail?: string;
+    range: SourceRange;
+    nameRange: SourceRange;
+    children: RfxDeclaration[];
+}
+
+export type RfxReferenceKind = 'state' | 'process' | 'identifier';
+
+export interface RfxReference {
+    kind: RfxReferenceKind;
+    name: string;
+    range: SourceRange;
+}
+
+export interface RfxParseError {
+    message: string;
+    range: SourceRange;
+}
+
+export interface RfxAst {
+    declarations: RfxDeclaration[];
+    references: RfxReference[];
+    /** Every matched `{ ... }` pair, used for folding */
+    blocks: SourceRange[];
+    comments: Comment[];
+    errors: RfxParseError[];
+}
+
+const TYPE_KEYWORDS = new Set(['BOOL', 'INT', 'SHORT', 'LONG', 'FLOAT', 'DOUBLE', 'CHAR', 'UNSIGNED', 'SIGNED', 'VOID', 'TIME']);
+const VARIABLE_MODIFIERS = new Set(['SHARED', 'CONST', 'STATIC', 'VOLATILE']);
+
+/**
+ * Recursive-descent parser for RFX. It only models what navigation needs
+ * (declarations, state/process references and block structure) and recovers
+ * from errors by skipping to the next `;` or to the enclosing `}`.
+ */
+class Parser {
+    private pos = 0;
+    private readonly references: RfxReference[] = [];
+    private readonly errors: RfxParseError[] = [];
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): { declarations: RfxDeclaration[], references: RfxReference[], errors: RfxParseError[] } {
+        const declarations: RfxDeclaration[] = [];
+        while (!this.atEnd()) {
+            if (this.isKeyword('PROGRAM')) {
+                declarations.push(this.parseProgram());
+            } else if (this.is('}')) {
+                this.error(`Unmatched '}'`, this.peek().range);
+                this.pos++;
+            } else {
+                this.parseProgramItem(declarations);
+            }
+        }
+        return { declarations, references: this.references, errors: this.errors };
+    }
+
+    private parseProgram(): RfxDeclaration {
+        const start = this.next();
+        const decl = this.declaration('program', start);
+        this.parseBody(decl, () => this.parseProgramItem(decl.children));
+        return decl;
+    }
+
+    private parseProgramItem(into: RfxDeclaration[]): void {
+        const token = this.peek();
+        const keyword = token.text.toUpperCase();
+
+        if (token.kind !== 'identifier') {
+            if (!this.accept(';')) {
+                this.error(`Unexpected '${token.text}'`, token.range);
+                this.recover();
+            }
+            return;
+        }
+
+        switch (keyword) {
+            case 'PROCESS':
+                into.push(this.parseProcess());
+                return;
+            case 'CONST':
+                if (this.peek(1).kind === 'identifier' && !TYPE_KEYWORDS.has(this.peek(1).text.toUpperCase())) {
+                    into.push(this.parseConst());
+                } else {
+                    this.parseVariables(into);
+                }
+                return;
+            case 'ENUM':
+                this.parseEnum(into);
+                return;
+            case 'INPUT':
+            case 'OUTPUT':
+            case 'PORT':
+                into.push(this.parsePort());
+                return;
+            case 'FUNCTION':
+                into.push(this.parseFunction());
+                return;
+            case 'TACT':
+            case 'IMPORT':
+            case 'INCLUDE':
+                this.skipStatement();
+                return;
+        }
+
+        if (TYPE_KEYWORDS.has(keyword) || VARIABLE_MODIFIERS.has(keyword)) {
+            this.parseVariables(into);
+            return;
+        }
+
+        this.error(`Unexpected '${token.text}'`, token.range);
+        this.recover();
+    }
+
+    private parseProcess(): RfxDeclaration {
+        const start = this.next();
+        const decl = this.declaration('process', start);
+        this.parseBody(decl, () => {
+            const token = this.peek();
+            const keyword = token.text.toUpperCase();
+            if (keyword === 'STATE') {
+                decl.children.push(this.parseState());
+            } else if (keyword === 'FROM' || keyword === 'SHARED' || keyword === 'IMPORT') {
+                this.parseImportedVariables(decl.children);
+            } else if (TYPE_KEYWORDS.has(keyword) || VARIABLE_MODIFIERS.has(keyword)) {
+                this.parseVariables(decl.children);
+            } else if (keyword === 'PROCESS' && this.peek(1).kind === 'identifier' && this.peek(2).text === '{') {
+                // A nested process almost always means the previous one is missing its '}'
+                this.error(`Missing '}' before PROCESS`, token.range);
+                return false;
+            } else if (!this.accept(';')) {
+                this.error(`Unexpected '${token.text}' in process`, token.range);
+                this.recover();
+            }
+            return true;
+        });
+        return decl;
+    }
+
+    private parseState(): RfxDeclaration {
+        const start = this.next();
+        const decl = this.declaration('state', start);
+        while (this.peek().kind === 'identifier' && (this.peek(1).kind === 'identifier' || this.peek(1).text === '{')) {
+            // Modifiers such as LOOPED
+            decl.detail = this.next().text;
+        }
+        if (!this.accept('{')) {
+            this.error(`Expected '{' after STATE ${decl.name}`, this.peek().range);
+            this.recover();
+            decl.range = this.rangeFrom(start);
+            return decl;
+        }
+        this.parseStatements();
+        decl.range = this.rangeFrom(start);
+        return decl;
+    }
+
+    /**
+     * State bodies are scanned rather than fully parsed: we only need
+     * references and to find the closing brace.
+     */
+    private parseStatements(): void {
+        let depth = 0;
+        while (!this.atEnd()) {
+            const token = this.peek();
+            const keyword = token.text.toUpperCase();
+
+            if (token.text === '{') {
+                depth++;
+                this.pos++;
+                continue;
+            }
+            if (token.text === '}') {
+                this.pos++;
+                if (depth === 0) return;
+                depth--;
+                continue;
+            }
+            if (token.kind !== 'identifier') {
+                this.pos++;
+                continue;
+            }
+
+            if (depth === 0 && keyword === 'STATE' && this.peek(1).kind === 'identifier') {
+                this.error(`Missing '}' before STATE`, token.range);
+                return;
+            }
+            if (keyword === 'SET' && this.peek(1).text.toUpperCase() === 'STATE') {
+                this.pos += 2;
+                this.reference('state');
+                continue;
+            }
+            if ((keyword === 'START' || keyword === 'STOP' || keyword === 'ERROR' || keyword === 'RESTART') &&
+                this.peek(1).text.toUpperCase() === 'PROCESS') {
+                this.pos += 2;
+                this.reference('process');
+                continue;
+            }
+            if (keyword === 'PROCESS' && this.peek(1).kind === 'identifier') {
+                // PROCESS p IN STATE ACTIVE
+                this.pos++;
+                this.reference('process');
+                continue;
+            }
+            this.references.push({ kind: 'identifier', name: token.text, range: token.range });
+            this.pos++;
+        }
+        this.error(`Missing '}'`, this.peek().range);
+    }
+
+    private parseConst(): RfxDeclaration {
+        const start = this.next();
+        const decl = this.declaration('const', start);
+        const valueStart = this.pos;
+        this.skipStatement();
+        decl.detail = this.textBetween(valueStart, this.pos).replace(/;$/, '').trim() || undefined;
+        decl.range = this.rangeFrom(start);
+        return decl;
+    }
+
+    private parseEnum(into: RfxDeclaration[]): void {
+        const start = this.next();
+        const named = this.peek().kind === 'identifier';
+        const decl = named ? this.declaration('enum', start) : undefined;
+        if (!this.accept('{')) {
+            this.error(`Expected '{' after ENUM`, this.peek().range);
+            this.recover();
+            if (decl) into.push(decl);
+            return;
+        }
+        const members = decl ? decl.children : into;
+        while (!this.atEnd() && !this.is('}')) {
+            const token = this.peek();
+            if (token.kind === 'identifier') {
+                this.pos++;
+                members.push({ kind: 'enumMember', name: token.text, range: token.range, nameRange: token.range, children: [] });
+                while (!this.atEnd() && !this.is(',') && !this.is('}') && !this.is(';')) this.pos++;
+            } else if (!this.accept(',')) {
+                this.error(`Unexpected '${token.text}' in ENUM`, token.range);
+                this.pos++;
+            }
+        }
+        this.expect('}');
+        this.accept(';');
+        if (decl) {
+            decl.range = this.rangeFrom(start);
+            into.push(decl);
+        }
+    }
+
+    private parsePort(): RfxDeclaration {
+        const start = this.next();
+        const decl = this.declaration('port', start);
+        const detailStart = this.pos;
+        while (!this.atEnd() && !this.is('{') && !this.is(';') && !this.is('}')) this.pos++;
+        decl.detail = `${start.text.toUpperCase()} ${this.textBetween(detailStart, this.pos)}`.trim();
+        if (this.is('{')) {
+            this.parseBody(decl, () => {
+                const token = this.peek();
+                if (token.kind === 'identifier') {
+                    this.parseVariables(decl.children);
+                } else if (!this.accept(';')) {
+                    this.error(`Unexpected '${token.text}' in port`, token.range);
+                    this.recover();
+                }
+                return true;
+            }, false);
+        }
+        this.accept(';');
+        decl.range = this.rangeFrom(start);
+        return decl;
+    }
+
+    private parseFunction(): RfxDeclaration {
+        const start = this.next();
+        // FUNCTION <type...> name ( params ) ;
+        let nameIndex = -1;
+        for (let i = this.pos; i < this.tokens.length && !['(', ';', '{', '}'].includes(this.tokens[i].text); i++) {
+            if (this.tokens[i].kind === 'identifier') nameIndex = i;
+        }
+        if (nameIndex === -1) {
+            this.error('Expected function name', this.peek().range);
+            this.recover();
+            return { kind: 'function', name: '<anonymous>', range: this.rangeFrom(start), nameRange: start.range, children: [] };
+        }
+        const typeText = this.textBetween(this.pos, nameIndex);
+        this.pos = nameIndex;
+        const decl = this.declaration('function', start);
+        decl.detail = typeText || undefined;
+        if (this.is('{')) {
+            this.pos++;
+            this.parseStatements();
+        } else {
+            this.skipStatement();
+        }
+        decl.range = this.rangeFrom(start);
+        return decl;
+    }
+
+    private parseImportedVariables(into: RfxDeclaration[]): void {
+        // FROM PROCESS p bool a, b;  /  SHARED bool a;
+        if (this.peek().text.toUpperCase() === 'FROM') {
+            this.pos++;
+            if (this.peek().text.toUpperCase() === 'PROCESS') {
+                this.pos++;
+                this.reference('process');
+            }
+        }
+        this.parseVariables(into);
+    }
+
+    /** `[modifiers] type name [= value] [, name [= value]]* ;` */
+    private parseVariables(into: RfxDeclaration[]): void {
+        const typeTokens: string[] = [];
+        while (this.peek().kind === 'identifier' &&
+            (VARIABLE_MODIFIERS.has(this.peek().text.toUpperCase()) || TYPE_KEYWORDS.has(this.peek().text.toUpperCase()))) {
+            typeTokens.push(this.next().text);
+        }
+        // User-defined type name, e.g. an enum: `Color c;`
+        if (this.peek().kind === 'identifier' && this.peek(1).kind === 'identifier') {
+            typeTokens.push(this.next().text);
+        }
+        const detail = typeTokens.join(' ') || undefined;
+
+        while (!this.atEnd()) {
+            const token = this.peek();
+            if (token.kind !== 'identifier') {
+                this.error(`Expected variable name, found '${token.text}'`, token.range);
+                this.recover();
+                return;
+            }
+            this.pos++;
+            const decl: RfxDeclaration = { kind: 'variable', name: token.text, detail, range: token.range, nameRange: token.range, children: [] };
+            // Skip array sizes, initialisers and port bindings up to the next separator
+            let depth = 0;
+            while (!this.atEnd()) {
+                const t = this.peek();
+                if (t.text === '{' || t.text === '(' || t.text === '[') depth++;
+                else if (t.text === '}' || t.text === ')' || t.text === ']') {
+                    if (depth === 0) break;
+                    depth--;
+                } else if (depth === 0 && (t.text === ',' || t.text === ';')) break;
+                this.pos++;
+            }
+            decl.range = this.rangeFrom(token);
+            into.push(decl);
+            if (this.accept(',')) continue;
+            if (!this.accept(';')) {
+                this.error(`Expected ';' after declaration of ${token.text}`, this.peek().range);
+            }
+            return;
+        }
+    }
+
+    /**
+     * Parses `{ item* }`. `parseItem` returns false to abandon the body when it
+     * detects a missing closing brace.
+     */
+    private parseBody(decl: RfxDeclaration, parseItem: () => boolean | void, required = true): void {
+        if (!this.accept('{')) {
+            if (required) {
+                this.error(`Expected '{' after ${decl.kind.toUpperCase()} ${decl.name}`, this.peek().range);
+                this.recover();
+            }
+            decl.range = this.rangeFrom(decl.range.start);
+            return;
+        }
+        while (!this.atEnd() && !this.is('}')) {
+            const before = this.pos;
+            if (parseItem() === false) break;
+            if (this.pos === before) this.pos++; // Guarantee progress
+        }
+        if (this.is('}')) {
+            this.pos++;
+        } else if (this.atEnd()) {
+            this.error(`Missing '}' for ${decl.kind.toUpperCase()} ${decl.name}`, this.peek().range);
+        }
+        decl.range = this.rangeFrom(decl.range.start);
+    }
+
+    private declaration(kind: RfxDeclarationKind, keyword: Token): RfxDeclaration {
+        const nameToken = this.peek();
+        if (nameToken.kind !== 'identifier') {
+            this.error(`Expected name after ${keyword.text}`, nameToken.range);
+            return { kind, name: '<missing>', range: keyword.range, nameRange: keyword.range, children: [] };
+        }
+        this.pos++;
+        return { kind, name: nameToken.text, range: keyword.range, nameRange: nameToken.range, children: [] };
+    }
+
+    private reference(kind: RfxReferenceKind): void {
+        const token = this.peek();
+        if (token.kind === 'identifier') {
+            this.references.push({ kind, name: token.text, range: token.range });
+            this.pos++;
+        }
+    }
+
+    /** Skips to just past the next `;` at the current nesting level. */
+    private skipStatement(): void {
+        let depth = 0;
+        while (!this.atEnd()) {
+            const text = this.next().text;
+            if (text === '{' || text === '(' || text === '[') depth++;
+            else if (text === '}' || text === ')' || text === ']') depth--;
+            else if (text === ';' && depth <= 0) return;
+            if (depth < 0) {
+                this.pos--;
+                return;
+            }
+        }
+    }
+
+    /** Error recovery: skip to the next `;` or stop before the enclosing `}`. */
+    private recover(): void {
+        let depth = 0;
+        while (!this.atEnd()) {
+            const text = this.peek().text;
+            if (text === '}' && depth === 0) return;
+            this.pos++;
+            if (text === '{') depth++;
+            else if (text === '}') {
+                depth--;
+                if (depth === 0) return;
+            } else if (text === ';' && depth === 0) return;
+        }
+    }
+
+    private textBetween(from: number, to: number): string {
+        return this.tokens.slice(from, to).map(t => t.text).join(' ');
+    }
+
+    private rangeFrom(start: Token | SourceRange['start']): SourceRange {
+        const startLocation = 'kind' in start ? start.range.start : start;
+        const last = this.tokens[Math.max(0, this.pos - 1)];
+        const end = last.range.end.offset >= startLocation.offset ? last.range.end : startLocation;
+        return { start: startLocation, end };
+    }
+
+    private error(message: string, range: SourceRange): void {
+        this.errors.push({ message, range });
+    }
+
+    private peek(ahead = 0): Token {
+        return this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.kind !== 'eof') this.pos++;
+        return token;
+    }
+
+    private is(text: string): boolean {
+        const token = this.peek();
+        return token.kind !== 'string' && token.text === text;
+    }
+
+    private isKeyword(keyword: string): boolean {
+        const token = this.peek();
+        return token.kind === 'identifier' && token.text.toUpperCase() === keyword;
+    }
+
+    private accept(text: string): boolean {
+        if (this.is(text)) {
+            this.pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(text: string): void {
+        if (!this.accept(text)) {
+            this.error(`Expected '${text}'`, this.peek().range);
+        }
+    }
+
+    private atEnd(): boolean {
+        return this.peek().kind === 'eof';
+    }
+}
+
+function matchBlocks(tokens: Token[]): SourceRange[] {
+    const blocks: SourceRange[] = [];
+    const stack: Token[] = [];
+    for (const token of tokens) {
+        if (token.kind !== 'punctuation') continue;
+        if (token.text === '{') {
+            stack.push(token);
+        } else if (token.text === '}') {
+            const open = stack.pop();
+            if (open) blocks.push({ start: open.range.start, end: token.range.end });
+        }
+    }
+    return blocks;
+}
+
+export function parseRfx(text: string): RfxAst {
+    const lexed = tokenize(text);
+    const parsed = new Parser(lexed.tokens).parse();
+    return {
+        declarations: parsed.declarations,
+        references: parsed.references,
+        blocks: matchBlocks(lexed.tokens),
+        comments: lexed.comments,
+        errors: [...lexed.errors, ...parsed.errors]
+    };
+}
+
+/** Depth-first walk over declarations, passing the chain of enclosing declarations. */
+export function walkDeclarations(
+    declarations: RfxDeclaration[],
+    visit: (decl: RfxDeclaration, parents: RfxDeclaration[]) => void,
+    parents: RfxDeclaration[] = []
+): void {
+    for (const decl of declarations) {
+        visit(decl, parents);
+        walkDeclarations(decl.children, visit, [...parents, decl]);
+    }
+}
+
+/** Returns the declarations enclosing `offset`, outermost first. */
+export function enclosingDeclarations(ast: RfxAst, offset: number): RfxDeclaration[] {
+    const chain: RfxDeclaration[] = [];
+    let level = ast.declarations;
+    for (;;) {
+        const match = level.find(d => d.range.start.offset <= offset && offset <= d.range.end.offset);
+        if (!match) return chain;
+        chain.push(match);
+        level = match.children;
+    }
+}
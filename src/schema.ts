@@ -0,0 +1,119 @@
+/**
+ * Minimal runtime validators for API responses. Objects are permissive about
+ * extra keys so that additive backend changes do not break the extension.
+ */
+export interface Schema<T> {
+    readonly expected: string;
+    /** Returns the validated value, or throws a SchemaIssue */
+    parse(value: unknown, path?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaIssue extends Error {
+    constructor(public readonly path: string, public readonly expected: string, public readonly received: unknown) {
+        super(`expected ${expected} at ${path || '<root>'}`);
+    }
+}
+
+function primitive<T>(expected: string, check: (value: unknown) => boolean): Schema<T> {
+    return {
+        expected,
+        parse(value, path = '') {
+            if (!check(value)) throw new SchemaIssue(path, expected, value);
+            return value as T;
+        }
+    };
+}
+
+export const string = (): Schema<string> => primitive('string', v => typeof v === 'string');
+export const nonEmptyString = (): Schema<string> => primitive('non-empty string', v => typeof v === 'string' && v.trim().length > 0);
+export const number = (): Schema<number> => primitive('number', v => typeof v === 'number' && !Number.isNaN(v));
+export const boolean = (): Schema<boolean> => primitive('boolean', v => typeof v === 'boolean');
+export const unknown = (): Schema<unknown> => primitive('anything', () => true);
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+    return primitive(values.map(v => `"${v}"`).join(' | '), v => values.includes(v as T));
+}
+
+/** Accepts `undefined` and `null`, normalising both to `undefined`. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return {
+        expected: `${schema.expected} (optional)`,
+        parse(value, path = '') {
+            return value === undefined || value === null ? undefined : schema.parse(value, path);
+        }
+    };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+        expected: `${item.expected}[]`,
+        parse(value, path = '') {
+            if (!Array.isArray(value)) throw new SchemaIssue(path, `${item.expected}[]`, value);
+            return value.map((v, i) => item.parse(v, `${path}[${i}]`));
+        }
+    };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+    return {
+        expected: `record of ${item.expected}`,
+        parse(value, path = '') {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                throw new SchemaIssue(path, 'object', value);
+            }
+            const result: Record<string, T> = {};
+            for (const [key, v] of Object.entries(value)) {
+                result[key] = item.parse(v, path ? `${path}.${key}` : key);
+            }
+            return result;
+        }
+    };
+}
+
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+    return {
+        expected: `${a.expected} | ${b.expected}`,
+        parse(value, path = '') {
+            try {
+                return a.parse(value, path);
+            } catch {
+                try {
+                    return b.parse(value, path);
+                } catch {
+                    throw new SchemaIssue(path, `${a.expected} | ${b.expected}`, value);
+                }
+            }
+        }
+    };
+}
+
+type Shape = Record<string, Schema<any>>;
+type OptionalKeys<P extends Shape> = { [K in keyof P]: undefined extends Infer<P[K]> ? K : never }[keyof P];
+type RequiredKeys<P extends Shape> = Exclude<keyof P, OptionalKeys<P>>;
+export type ObjectType<P extends Shape> =
+    { [K in RequiredKeys<P>]: Infer<P[K]> } &
+    { [K in OptionalKeys<P>]?: Infer<P[K]> };
+
+export function object<P extends Shape>(shape: P): Schema<ObjectType<P>> {
+    return {
+        expected: 'object',
+        parse(value, path = '') {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                throw new SchemaIssue(path, 'object', value);
+            }
+            const input = value as Record<string, unknown>;
+            const result: Record<string, unknown> = { ...input };
+            for (const key of Object.keys(shape)) {
+                const parsed = shape[key].parse(input[key], path ? `${path}.${key}` : key);
+                if (parsed === undefined) {
+                    delete result[key];
+                } else {
+                    result[key] = parsed;
+                }
+            }
+            return result as ObjectType<P>;
+        }
+    };
+}
@@ -0,0 +1,376 @@
+import * as vscode from 'vscode';
+import { ContextAttachment, ReflexibleClient } from './client';
+import { AgentEvent } from './api-types';
+import { AgentEventStream } from './agent-stream';
+import { ChatHistoryCache } from './chat-history-cache';
+import { showApiError } from './errors';
+import { downloadArtifacts } from './file-manager';
+import { remoteUri } from './file-sync';
+import { renderMarkdown } from './markdown';
+
+/** Sessions that run at least this long notify when they end, whatever their mode */
+const NOTIFY_AFTER_MS = 60 * 1000;
+
+export type SessionOutcome = 'completed' | 'failed' | 'stopped';
+
+/**
+ * Something showing a session, in practice a chat panel. Messages use the
+ * chat webview's protocol so a panel can pass them straight through.
+ */
+export interface SessionViewer {
+    /** Whether the viewer is on screen; a session nobody saw end notifies */
+    readonly visible: boolean;
+    post(message: any): void;
+}
+
+export interface BackgroundSession {
+    readonly projectId: string;
+    readonly projectName: string;
+    /** Compute mode, when known */
+    readonly mode?: string;
+    /** Unknown until dispatch returns */
+    readonly sessionId?: string;
+    readonly stopping: boolean;
+}
+
+interface ManagedSession extends BackgroundSession {
+    sessionId?: string;
+    stopping: boolean;
+    readonly startedAt: number;
+    /** Aborting ends the local stream; the server is told separately */
+    readonly controller: AbortController;
+    readonly viewers: Set<SessionViewer>;
+    /** Latest todo list, replayed to viewers that join late */
+    todos?: AgentEvent;
+    lastError?: string;
+}
+
+/**
+ * Runs agent sessions in the extension host, one per project. A session keeps
+ * streaming and downloads its artifacts when it completes whether or not a
+ * chat panel is open; panels follow it while they are. When a pro-mode or
+ * long session ends without anyone watching, a notification says how it went.
+ */
+export class SessionManager implements vscode.Disposable {
+    private readonly sessions = new Map<string, ManagedSession>();
+    private readonly historyCache: ChatHistoryCache;
+
+    private readonly _onDidChangeSessions = new vscode.EventEmitter<number>();
+    /** Fires with the number of running sessions whenever one starts, gets its ID or ends */
+    readonly onDidChangeSessions = this._onDidChangeSessions.event;
+    private readonly _onDidCompleteSession = new vscode.EventEmitter<string>();
+    /** Fires with the project ID when a session completes successfully */
+    readonly onDidCompleteSession = this._onDidCompleteSession.event;
+    private readonly _onDidGenerateFiles = new vscode.EventEmitter<vscode.Uri[]>();
+    /** Fires with the project and workspace files a completed session produced */
+    readonly onDidGenerateFiles = this._onDidGenerateFiles.event;
+    private readonly _onDidEndSession = new vscode.EventEmitter<{ session: BackgroundSession, outcome: SessionOutcome }>();
+    readonly onDidEndSession = this._onDidEndSession.event;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {
+        this.historyCache = new ChatHistoryCache(context);
+    }
+
+    get(projectId: string): BackgroundSession | undefined {
+        return this.sessions.get(projectId);
+    }
+
+    get running(): BackgroundSession[] {
+        return [...this.sessions.values()];
+    }
+
+    get runningSessionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Dispatches a message as a new session and streams it in the background.
+     * `viewer` is the panel the message was typed in.
+     */
+    start(
+        projectId: string,
+        projectName: string,
+        mode: string,
+        message: string,
+        attachments: ContextAttachment[],
+        viewer?: SessionViewer
+    ): void {
+        if (this.sessions.has(projectId)) {
+            throw new Error('A session is already running for this project - stop it first');
+        }
+        const session = this.track(projectId, projectName, mode, viewer);
+        void this.run(session, async () => {
+            this.broadcast(session, { type: 'status', message: `Starting ${mode} session...` });
+            return ReflexibleClient.for(this.context).dispatch({
+                projectId,
+                message,
+                computeConfig: mode,
+                context: attachments.length > 0 ? attachments : undefined
+            });
+        });
+    }
+
+    /**
+     * Follows a session that is running on the server but not in this window,
+     * e.g. one started before a reload.
+     */
+    attach(projectId: string, projectName: string, sessionId: string, mode?: string): void {
+        const running = this.sessions.get(projectId);
+        if (running) {
+            if (running.sessionId !== sessionId) {
+                vscode.window.showWarningMessage(`Another session is already running for ${projectName} - stop it first`);
+            }
+            return;
+        }
+        const session = this.track(projectId, projectName, mode);
+        session.sessionId = sessionId;
+        this.outputChannel.appendLine(`Reattached to session ${sessionId}`);
+        void this.run(session);
+    }
+
+    /**
+     * Shows the project's running session in `viewer`, catching it up on the
+     * current todo list. Returns false when no session is running.
+     */
+    follow(projectId: string, viewer: SessionViewer): boolean {
+        const session = this.sessions.get(projectId);
+        if (!session) return false;
+        if (session.viewers.has(viewer)) return true;
+        session.viewers.add(viewer);
+        if (session.sessionId) {
+            viewer.post({ type: 'sessionStarted', sessionId: session.sessionId });
+            viewer.post({ type: 'status', message: 'Following the session running in the background...' });
+            if (session.todos) viewer.post({ type: 'sse', data: session.todos });
+        }
+        return true;
+    }
+
+    /** Stops showing sessions in `viewer`; they keep running. */
+    unfollow(viewer: SessionViewer): void {
+        for (const session of this.sessions.values()) {
+            if (session.viewers.delete(viewer)) {
+                this.outputChannel.appendLine(`Chat panel closed - session ${session.sessionId ?? '(starting)'} continues in the background`);
+            }
+        }
+    }
+
+    /** Stops the session of `projectId`, or lets the user pick when called without one. */
+    async stopSession(projectId?: string): Promise<void> {
+        const running = [...this.sessions.values()].filter(s => !s.stopping);
+        if (running.length === 0) {
+            vscode.window.showInformationMessage('No Reflexible session is running');
+            return;
+        }
+        let target = projectId ? this.sessions.get(projectId) : undefined;
+        if (!target && running.length === 1) {
+            target = running[0];
+        } else if (!target) {
+            const picked = await vscode.window.showQuickPick(
+                running.map(s => ({ label: s.projectName, description: s.sessionId ?? 'starting...', session: s })),
+                { placeHolder: 'Select the session to stop' }
+            );
+            target = picked?.session;
+        }
+        if (target) await this.stop(target.projectId);
+    }
+
+    async stop(projectId: string): Promise<void> {
+        const session = this.sessions.get(projectId);
+        if (!session || session.stopping) return;
+
+        session.stopping = true;
+        this.broadcast(session, { type: 'status', message: 'Stopping session...' });
+        session.controller.abort();
+
+        // Without an ID the dispatch is still in flight; run() finishes the stop
+        if (session.sessionId) {
+            await this.stopOnServer(session);
+        }
+    }
+
+    private track(projectId: string, projectName: string, mode?: string, viewer?: SessionViewer): ManagedSession {
+        const session: ManagedSession = {
+            projectId,
+            projectName,
+            mode,
+            stopping: false,
+            startedAt: Date.now(),
+            controller: new AbortController(),
+            viewers: new Set(viewer ? [viewer] : [])
+        };
+        this.sessions.set(projectId, session);
+        this._onDidChangeSessions.fire(this.sessions.size);
+        return session;
+    }
+
+    private untrack(session: ManagedSession) {
+        if (this.sessions.get(session.projectId) === session) {
+            this.sessions.delete(session.projectId);
+            this._onDidChangeSessions.fire(this.sessions.size);
+        }
+    }
+
+    private async run(session: ManagedSession, dispatch?: () => Promise<string>) {
+        let outcome: SessionOutcome = 'failed';
+        try {
+            if (dispatch) {
+                session.sessionId = await dispatch();
+                // Stop was requested while the dispatch was in flight
+                if (session.controller.signal.aborted) {
+                    outcome = 'stopped';
+                    if (session.stopping) await this.stopOnServer(session);
+                    return;
+                }
+                this._onDidChangeSessions.fire(this.sessions.size);
+            }
+            this.broadcast(session, { type: 'sessionStarted', sessionId: session.sessionId });
+            outcome = await this.stream(session);
+        } catch (e: any) {
+            if (session.controller.signal.aborted) {
+                outcome = 'stopped';
+                return;
+            }
+            session.lastError = e.message;
+            this.outputChannel.appendLine('Session error: ' + e.message);
+            this.outputChannel.appendLine('Stack: ' + e.stack);
+            this.broadcast(session, { type: 'error', message: e.message });
+            showApiError(e, 'Reflexible');
+        } finally {
+            this.untrack(session);
+            // Whatever happened, never leave a panel's input disabled
+            this.broadcast(session, { type: 'sessionEnded' });
+            this._onDidEndSession.fire({ session, outcome });
+            this.notify(session, outcome);
+            // After untracking: reviewing the artifacts can take a while, and the
+            // project is free for the next session meanwhile
+            if (outcome === 'completed') void this.downloadArtifacts(session);
+        }
+    }
+
+    private async stream(session: ManagedSession): Promise<SessionOutcome> {
+        const sessionId = session.sessionId!;
+        const stream = new AgentEventStream(this.context, sessionId, this.outputChannel);
+        session.controller.signal.addEventListener('abort', () => stream.close(), { once: true });
+        let outcome: SessionOutcome | undefined;
+
+        stream.onEvent(event => {
+            const text = event.type === 'content' || event.type === 'message' ? event.message || event.content : undefined;
+            this.broadcast(session, { type: 'sse', data: event, html: text ? renderMarkdown(text) : undefined });
+
+            if (event.type === 'todo_update') session.todos = event;
+            if (event.type === 'error') session.lastError = event.message || event.content;
+            if (event.type === 'stopped' || event.type === 'cancelled') outcome = 'stopped';
+
+            if (text) {
+                this.historyCache.append(session.projectId, {
+                    role: 'assistant',
+                    content: text,
+                    createdAt: new Date().toISOString(),
+                    sessionId
+                }).catch((e: any) => this.outputChannel.appendLine('Failed to cache chat message: ' + e.message));
+            }
+
+            if (event.type === 'complete') {
+                outcome = 'completed';
+                this._onDidCompleteSession.fire(session.projectId);
+            }
+        });
+        stream.onReconnecting(info => {
+            this.broadcast(session, {
+                type: 'status',
+                message: `Connection lost - reconnecting (attempt ${info.attempt})...`
+            });
+        });
+
+        try {
+            const reason = await stream.start();
+            if (session.controller.signal.aborted) return 'stopped';
+            if (reason === 'failed' && !outcome) {
+                session.lastError = 'Lost connection to the session. It may still be running on the server.';
+                this.broadcast(session, { type: 'error', message: session.lastError });
+            }
+            return outcome ?? 'failed';
+        } finally {
+            stream.dispose();
+        }
+    }
+
+    /** Auto-download of a completed session's artifacts */
+    private async downloadArtifacts(session: ManagedSession): Promise<void> {
+        try {
+            const result = await downloadArtifacts(this.context, session.projectId, session.sessionId!, this.outputChannel);
+            this._onDidGenerateFiles.fire([
+                ...result.artifacts.map(artifactPath => remoteUri(session.projectId, artifactPath)),
+                ...result.files
+            ]);
+            if (result.written > 0 || result.rejected > 0 || result.failed > 0) {
+                this.broadcast(session, {
+                    type: 'artifactsDownloaded',
+                    count: result.written,
+                    rejected: result.rejected,
+                    failed: result.failed,
+                    location: result.outputDir && vscode.workspace.asRelativePath(result.outputDir)
+                });
+            }
+        } catch (e: any) {
+            this.outputChannel.appendLine('Failed to download artifacts: ' + e.message);
+            showApiError(e, 'Failed to download artifacts');
+        }
+    }
+
+    private async stopOnServer(session: ManagedSession) {
+        try {
+            await ReflexibleClient.for(this.context).stop(session.sessionId!);
+            this.outputChannel.appendLine(`Stopped session ${session.sessionId}`);
+            this.broadcast(session, { type: 'sessionStopped' });
+        } catch (e: any) {
+            this.outputChannel.appendLine('Failed to stop: ' + e.message);
+            this.broadcast(session, {
+                type: 'error',
+                message: 'Stopped listening, but the server did not confirm the stop: ' + e.message
+            });
+            showApiError(e, 'Failed to stop session');
+        }
+    }
+
+    /** Pro-mode and long sessions say how they ended unless a panel on screen already showed it. */
+    private notify(session: ManagedSession, outcome: SessionOutcome) {
+        if (outcome === 'stopped') return;
+        if (session.mode !== 'pro' && Date.now() - session.startedAt < NOTIFY_AFTER_MS) return;
+        const seen = vscode.window.state.focused && [...session.viewers].some(viewer => viewer.visible);
+        if (seen) return;
+
+        const openChat = () => vscode.commands.executeCommand('reflexible.activateProject', session.projectId, session.projectName);
+        if (outcome === 'completed') {
+            vscode.window.showInformationMessage(`✅ Reflexible session in ${session.projectName} completed`, 'Open Chat')
+                .then(choice => {
+                    if (choice === 'Open Chat') openChat();
+                });
+        } else {
+            vscode.window.showErrorMessage(
+                `Reflexible session in ${session.projectName} failed${session.lastError ? `: ${session.lastError}` : ''}`,
+                'Open Chat',
+                'Show Log'
+            ).then(choice => {
+                if (choice === 'Open Chat') openChat();
+                if (choice === 'Show Log') this.outputChannel.show();
+            });
+        }
+    }
+
+    private broadcast(session: ManagedSession, message: any) {
+        session.viewers.forEach(viewer => viewer.post(message));
+    }
+
+    dispose(): void {
+        this.sessions.forEach(session => session.controller.abort());
+        this.sessions.clear();
+        this._onDidChangeSessions.dispose();
+        this._onDidCompleteSession.dispose();
+        this._onDidGenerateFiles.dispose();
+        this._onDidEndSession.dispose();
+    }
+}
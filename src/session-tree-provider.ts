@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { getApiKey } from './api';
+import { Project, SessionSummary } from './api-types';
+import { ChatHistoryCache } from './chat-history-cache';
+import { ReflexibleClient } from './client';
+import { ProjectTreeProvider } from './project-tree-provider';
+import { SessionManager } from './session-manager';
+
+/** Server statuses of sessions that have not finished yet */
+const RUNNING_STATUSES = new Set(['pending', 'queued', 'running']);
+
+/**
+ * Agent sessions per project, newest first: ones this window is streaming,
+ * ones still running on the server, and finished ones with their outcome and
+ * credit cost. Projects come from the Projects view; sessions are fetched when
+ * a project is expanded and kept until the next refresh.
+ */
+export class SessionTreeProvider implements vscode.TreeDataProvider<SessionNode> {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<SessionNode | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private readonly sessions = new Map<string, Promise<SessionSummary[]>>();
+    private readonly historyCache: ChatHistoryCache;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly projectTree: ProjectTreeProvider,
+        private readonly sessionManager: SessionManager
+    ) {
+        this.historyCache = new ChatHistoryCache(context);
+        context.subscriptions.push(
+            this._onDidChangeTreeData,
+            projectTree.onDidChangeTreeData(() => this._onDidChangeTreeData.fire()),
+            // Starting, finishing or reattaching changes what the server reports too
+            sessionManager.onDidChangeSessions(() => this.refresh())
+        );
+    }
+
+    /** Re-fetches the sessions of every project that has been expanded. */
+    refresh(): void {
+        this.sessions.clear();
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: SessionNode): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: SessionNode): Promise<SessionNode[]> {
+        if (!await getApiKey(this.context)) return [];
+
+        if (!element) {
+            const activeId = this.projectTree.getActiveProjectId();
+            return this.projectTree.getProjects().map(project => SessionNode.forProject(project, project.id === activeId));
+        }
+
+        if (element.contextValue !== 'sessionProject') return [];
+        const project = element.project;
+        const attached = new Set(this.sessionManager.running
+            .filter(session => session.projectId === project.id && session.sessionId)
+            .map(session => session.sessionId!));
+
+        let sessions: SessionSummary[];
+        try {
+            sessions = await this.load(project.id);
+        } catch (e: any) {
+            this.outputChannel.appendLine('Failed to load sessions: ' + e.message);
+            sessions = this.historyCache.getSessions(project.id);
+            if (sessions.length === 0) {
+                const errorNode = new SessionNode('⚠️ Failed to load sessions', vscode.TreeItemCollapsibleState.None, 'error', project);
+                errorNode.tooltip = e.message;
+                return [errorNode];
+            }
+        }
+
+        // A session started a moment ago may not be listed yet
+        const listed = new Set(sessions.map(session => session.id));
+        const unlisted = [...attached].filter(id => !listed.has(id)).map(id => ({ id, status: 'running' }));
+        const newestFirst = [...sessions].sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+        const nodes = [...unlisted, ...newestFirst].map(session => SessionNode.forSession(project, session, attached.has(session.id)));
+        return nodes.length > 0
+            ? nodes
+            : [new SessionNode('No sessions yet', vscode.TreeItemCollapsibleState.None, 'empty', project)];
+    }
+
+    private load(projectId: string): Promise<SessionSummary[]> {
+        let sessions = this.sessions.get(projectId);
+        if (!sessions) {
+            sessions = ReflexibleClient.for(this.context).listSessions(projectId).then(async list => {
+                await this.historyCache.setSessions(projectId, list);
+                return list;
+            });
+            // A failed load is retried on the next expansion
+            sessions.catch(() => this.sessions.delete(projectId));
+            this.sessions.set(projectId, sessions);
+        }
+        return sessions;
+    }
+}
+
+export class SessionNode extends vscode.TreeItem {
+    session?: SessionSummary;
+
+    constructor(
+        label: string,
+        collapsibleState: vscode.TreeItemCollapsibleState,
+        contextValue: string,
+        public readonly project: Project
+    ) {
+        super(label, collapsibleState);
+        this.contextValue = contextValue;
+    }
+
+    static forProject(project: Project, active: boolean): SessionNode {
+        const node = new SessionNode(
+            project.name,
+            active ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+            'sessionProject',
+            project
+        );
+        node.id = `project:${project.id}`;
+        node.iconPath = new vscode.ThemeIcon(active ? 'folder-active' : 'folder');
+        if (active) node.description = 'active';
+        return node;
+    }
+
+    /**
+     * `session.attached` is streaming in this window, `session.running` can
+     * be reattached to, and `session` has finished.
+     */
+    static forSession(project: Project, session: SessionSummary, attached: boolean): SessionNode {
+        const running = attached || RUNNING_STATUSES.has(session.status ?? '');
+        const started = session.createdAt ? new Date(session.createdAt).toLocaleString() : undefined;
+        const node = new SessionNode(
+            session.title || started || session.id.substring(0, 8),
+            vscode.TreeItemCollapsibleState.None,
+            attached ? 'session.attached' : running ? 'session.running' : 'session',
+            project
+        );
+        node.id = `session:${session.id}`;
+        node.session = session;
+        node.iconPath = statusIcon(running ? 'running' : session.status);
+        node.description = [
+            session.mode,
+            attached ? 'running (attached)' : session.status,
+            session.creditsUsed !== undefined ? `${session.creditsUsed.toFixed(2)} credits` : undefined
+        ].filter(Boolean).join(' · ');
+        node.tooltip = [
+            `Session ${session.id}`,
+            started && `Started ${started}`,
+            session.updatedAt && `Updated ${new Date(session.updatedAt).toLocaleString()}`
+        ].filter(Boolean).join('\n');
+        node.command = { command: 'reflexible.openSessionTranscript', title: 'Open Transcript', arguments: [node] };
+        return node;
+    }
+}
+
+function statusIcon(status: string | undefined): vscode.ThemeIcon {
+    switch (status) {
+        case 'running':
+            return new vscode.ThemeIcon('sync~spin');
+        case 'completed':
+            return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        case 'failed':
+        case 'error':
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        case 'stopped':
+        case 'cancelled':
+            return new vscode.ThemeIcon('circle-slash');
+        default:
+            return new vscode.ThemeIcon('circle-outline');
+    }
+}
@@ -0,0 +1,297 @@
+import * as vscode from 'vscode';
+
+export interface SseMessage {
+    /** `event:` field, or "message" when absent */
+    event: string;
+    data: string;
+    /** Last event ID in effect when this message was dispatched */
+    id: string;
+}
+
+export interface SseReconnectInfo {
+    attempt: number;
+    delay: number;
+    reason: string;
+}
+
+export type SseCloseReason = 'closed' | 'completed' | 'failed';
+
+export interface SseClientOptions {
+    /** Opens the HTTP stream. Must send `Last-Event-ID` when one is given. */
+    open: (lastEventId: string | undefined, signal: AbortSignal) => Promise<Response>;
+    /** Reconnect if nothing (not even a `:` comment) arrives for this long. Default 45s. */
+    heartbeatTimeout?: number;
+    /** Reconnect delay until the server sends `retry:`. Default 3s. */
+    retryDelay?: number;
+    /** Consecutive failed connection attempts before giving up. Default 5. */
+    maxRetries?: number;
+    /** Return true for the message that ends the stream, e.g. a completion event. */
+    isTerminal?: (message: SseMessage) => boolean;
+}
+
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Parses the `text/event-stream` wire format incrementally, following the
+ * WHATWG spec: CRLF/LF/CR line endings, `:` comments, multi-line `data:`,
+ * `event:`, `id:` and `retry:` fields.
+ */
+export class SseParser {
+    private buffer = '';
+    private data: string[] = [];
+    private eventType = '';
+    private lastEventId = '';
+    private pendingCR = false;
+
+    constructor(
+        private readonly onMessage: (message: SseMessage) => void,
+        private readonly onRetry: (ms: number) => void = () => {}
+    ) {}
+
+    get eventId(): string {
+        return this.lastEventId;
+    }
+
+    push(chunk: string): void {
+        // A CR at the end of the previous chunk may be the first half of a CRLF
+        if (this.pendingCR && chunk.startsWith('\n')) chunk = chunk.slice(1);
+        this.pendingCR = chunk.endsWith('\r');
+        this.buffer += chunk;
+
+        const lines = this.buffer.split(/\r\n|\n|\r/);
+        this.buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            this.processLine(line);
+        }
+    }
+
+    /** Discards a partially received event, e.g. after the connection dropped. */
+    reset(): void {
+        this.buffer = '';
+        this.data = [];
+        this.eventType = '';
+        this.pendingCR = false;
+    }
+
+    private processLine(line: string): void {
+        if (line === '') {
+            this.dispatch();
+            return;
+        }
+        if (line.startsWith(':')) return;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+            case 'data':
+                this.data.push(value);
+                break;
+            case 'event':
+                this.eventType = value;
+                break;
+            case 'id':
+                if (!value.includes('\0')) this.lastEventId = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) this.onRetry(Number(value));
+                break;
+        }
+    }
+
+    private dispatch(): void {
+        const type = this.eventType || 'message';
+        this.eventType = '';
+        if (this.data.length === 0) return;
+        const data = this.data.join('\n');
+        this.data = [];
+        this.onMessage({ event: type, data, id: this.lastEventId });
+    }
+}
+
+/**
+ * Resumable server-sent events client. Reconnects after drops and stalls,
+ * resuming from the last received event ID, until a terminal message arrives,
+ * `close()` is called, or reconnection keeps failing.
+ */
+export class SseClient implements vscode.Disposable {
+    private readonly _onMessage = new vscode.EventEmitter<SseMessage>();
+    readonly onMessage = this._onMessage.event;
+
+    private readonly _onOpen = new vscode.EventEmitter<void>();
+    readonly onOpen = this._onOpen.event;
+
+    private readonly _onReconnecting = new vscode.EventEmitter<SseReconnectInfo>();
+    readonly onReconnecting = this._onReconnecting.event;
+
+    private readonly _onError = new vscode.EventEmitter<Error>();
+    readonly onError = this._onError.event;
+
+    private readonly _onClose = new vscode.EventEmitter<SseCloseReason>();
+    readonly onClose = this._onClose.event;
+
+    private readonly controller = new AbortController();
+    private connection: AbortController | undefined;
+    private retryDelay: number;
+    private terminated = false;
+    private running: Promise<SseCloseReason> | undefined;
+
+    constructor(private readonly options: SseClientOptions) {
+        this.retryDelay = options.retryDelay ?? 3000;
+    }
+
+    /** Starts streaming; resolves once the stream is finished for good. */
+    start(): Promise<SseCloseReason> {
+        if (!this.running) {
+            this.running = this.run().then(reason => {
+                this._onClose.fire(reason);
+                return reason;
+            });
+        }
+        return this.running;
+    }
+
+    close(): void {
+        this.controller.abort();
+        this.connection?.abort();
+    }
+
+    private async run(): Promise<SseCloseReason> {
+        const parser = new SseParser(
+            message => {
+                this._onMessage.fire(message);
+                if (this.options.isTerminal?.(message)) {
+                    this.terminated = true;
+                    this.connection?.abort();
+                }
+            },
+            ms => { this.retryDelay = ms; }
+        );
+        const maxRetries = this.options.maxRetries ?? 5;
+        let failures = 0;
+
+        while (!this.controller.signal.aborted && !this.terminated) {
+            let reason: string;
+            let received = false;
+            try {
+                const outcome = await this.connect(parser, () => { received = true; });
+                if (this.terminated) return 'completed';
+                if (outcome === 'done') return 'completed';
+                reason = outcome;
+            } catch (e: any) {
+                if (this.terminated) return 'completed';
+                if (this.controller.signal.aborted) return 'closed';
+                if (e instanceof FatalStreamError) {
+                    this._onError.fire(e);
+                    return 'failed';
+                }
+                reason = e?.message || String(e);
+                this._onError.fire(e instanceof Error ? e : new Error(reason));
+            }
+            parser.reset();
+
+            // A connection that delivered data counts as healthy
+            failures = received ? 1 : failures + 1;
+            if (failures > maxRetries) {
+                this._onError.fire(new Error(`Event stream lost after ${maxRetries} reconnect attempts (${reason})`));
+                return 'failed';
+            }
+            const delay = Math.min(this.retryDelay * 2 ** (failures - 1), MAX_RECONNECT_DELAY);
+            this._onReconnecting.fire({ attempt: failures, delay, reason });
+            if (!await this.wait(delay)) return 'closed';
+        }
+        return this.terminated ? 'completed' : 'closed';
+    }
+
+    /**
+     * Reads one HTTP connection to its end. Returns 'done' when the server
+     * says not to reconnect, or a reason string when reconnecting makes sense.
+     */
+    private async connect(parser: SseParser, onData: () => void): Promise<string> {
+        const connection = new AbortController();
+        this.connection = connection;
+        const abortConnection = () => connection.abort();
+        this.controller.signal.addEventListener('abort', abortConnection, { once: true });
+
+        const heartbeatTimeout = this.options.heartbeatTimeout ?? 45000;
+        let stalled = false;
+        let stallTimer: NodeJS.Timeout | undefined;
+        const armStallTimer = () => {
+            if (stallTimer) clearTimeout(stallTimer);
+            stallTimer = setTimeout(() => {
+                stalled = true;
+                connection.abort();
+            }, heartbeatTimeout);
+        };
+
+        try {
+            armStallTimer();
+            const resp = await this.options.open(parser.eventId || undefined, connection.signal);
+
+            // Per spec, 204 means "stop reconnecting"; client errors will not fix themselves
+            if (resp.status === 204) return 'done';
+            if (resp.status >= 400 && resp.status < 500 && resp.status !== 408 && resp.status !== 429) {
+                const text = await resp.text().catch(() => '');
+                throw new FatalStreamError(`Event stream rejected (${resp.status}): ${text.substring(0, 200)}`);
+            }
+            if (!resp.ok || !resp.body) {
+                return `HTTP ${resp.status}`;
+            }
+
+            this._onOpen.fire();
+            const reader = resp.body.getReader();
+            const decoder = new TextDecoder();
+            for (;;) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                armStallTimer();
+                if (value && value.length > 0) {
+                    onData();
+                    parser.push(decoder.decode(value, { stream: true }));
+                }
+            }
+            parser.push(decoder.decode());
+            return 'stream ended';
+        } catch (e) {
+            if (stalled) return `no data for ${Math.round(heartbeatTimeout / 1000)}s`;
+            throw e;
+        } finally {
+            if (stallTimer) clearTimeout(stallTimer);
+            this.controller.signal.removeEventListener('abort', abortConnection);
+            if (this.connection === connection) this.connection = undefined;
+        }
+    }
+
+    /** Resolves false if the client was closed while waiting. */
+    private wait(ms: number): Promise<boolean> {
+        return new Promise(resolve => {
+            if (this.controller.signal.aborted) {
+                resolve(false);
+                return;
+            }
+            const timer = setTimeout(() => {
+                this.controller.signal.removeEventListener('abort', onAbort);
+                resolve(true);
+            }, ms);
+            const onAbort = () => {
+                clearTimeout(timer);
+                resolve(false);
+            };
+            this.controller.signal.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    dispose(): void {
+        this.close();
+        this._onMessage.dispose();
+        this._onOpen.dispose();
+        this._onReconnecting.dispose();
+        this._onError.dispose();
+        this._onClose.dispose();
+    }
+}
+
+/** Errors that reconnecting cannot fix. */
+class FatalStreamError extends Error {}
@@ -3,6 +3,10 @@ import * as vscode from 'vscode';
 export class StatusBarManager {
     private creditsItem: vscode.StatusBarItem;
     private modeItem: vscode.StatusBarItem;
+    private runItem: vscode.StatusBarItem;
+    private offlineItem: vscode.StatusBarItem;
+    private stopItem: vscode.StatusBarItem;
+    private syncItem: vscode.StatusBarItem;
 
     constructor(context: vscode.ExtensionContext) {
         // Credits display (left side)
@@ -22,6 +26,87 @@ export class StatusBarManager {
         this.modeItem.command = 'reflexible.selectComputeMode';
         this.modeItem.tooltip = 'Click to change compute mode';
         context.subscriptions.push(this.modeItem);
+
+        // Background compile/verify result (left side)
+        this.runItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+            98
+        );
+        this.runItem.command = 'workbench.actions.view.problems';
+        context.subscriptions.push(this.runItem);
+
+        // Connectivity (left side, before everything else)
+        this.offlineItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+            101
+        );
+        this.offlineItem.text = '$(cloud-offline) Reflexible offline';
+        this.offlineItem.tooltip = 'Cannot reach the Reflexible server. Retrying automatically - click to retry now';
+        this.offlineItem.command = 'reflexible.checkConnection';
+        this.offlineItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        context.subscriptions.push(this.offlineItem);
+
+        // Stop action while an agent session runs (left side)
+        this.stopItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+            97
+        );
+        this.stopItem.command = 'reflexible.stopSession';
+        context.subscriptions.push(this.stopItem);
+
+        // Linked folder sync state (left side)
+        this.syncItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+            96
+        );
+        this.syncItem.command = 'reflexible.syncMenu';
+        context.subscriptions.push(this.syncItem);
+    }
+
+    /** Pass undefined when no folder is linked. */
+    updateSync(status: { projectName: string, syncing: boolean, pending: number, conflicts: number, error?: string } | undefined): void {
+        if (!status) {
+            this.syncItem.hide();
+            return;
+        }
+        const { projectName, syncing, pending, conflicts, error } = status;
+        if (conflicts > 0) {
+            this.syncItem.text = `$(warning) ${conflicts} conflict${conflicts === 1 ? '' : 's'}`;
+            this.syncItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else if (error) {
+            this.syncItem.text = '$(sync-ignored) Sync paused';
+            this.syncItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+        } else {
+            this.syncItem.text = syncing ? '$(sync~spin) Syncing'
+                : pending > 0 ? `$(cloud-upload) ${pending} pending`
+                : '$(check) Synced';
+            this.syncItem.backgroundColor = undefined;
+        }
+        const details = [
+            pending > 0 ? `${pending} file(s) waiting to sync` : undefined,
+            conflicts > 0 ? `${conflicts} file(s) changed on both sides` : undefined,
+            error
+        ].filter(Boolean).join('\n');
+        this.syncItem.tooltip = `Linked to Reflexible project "${projectName}"${details ? '\n' + details : ''}\nClick for sync actions`;
+        this.syncItem.show();
+    }
+
+    updateRunningSessions(count: number): void {
+        if (count === 0) {
+            this.stopItem.hide();
+            return;
+        }
+        this.stopItem.text = count === 1 ? '$(debug-stop) Stop session' : `$(debug-stop) Stop session (${count} running)`;
+        this.stopItem.tooltip = 'Stop the running Reflexible agent session';
+        this.stopItem.show();
+    }
+
+    setOffline(offline: boolean): void {
+        if (offline) {
+            this.offlineItem.show();
+        } else {
+            this.offlineItem.hide();
+        }
     }
 
     updateCredits(total: number, promo: number): void {
@@ -39,9 +124,32 @@ export class StatusBarManager {
         this.modeItem.show();
     }
 
+    showRunning(label: string, fileName: string): void {
+        this.runItem.text = `$(sync~spin) ${label}`;
+        this.runItem.tooltip = `${label} ${fileName}`;
+        this.runItem.backgroundColor = undefined;
+        this.runItem.show();
+    }
+
+    hideRun(): void {
+        this.runItem.hide();
+    }
+
+    showRunResult(label: string, fileName: string, success: boolean, problemCount: number): void {
+        const problems = problemCount === 1 ? '1 problem' : `${problemCount} problems`;
+        this.runItem.text = success
+            ? `$(pass) ${label}`
+            : `$(error) ${label}${problemCount > 0 ? ` (${problems})` : ''}`;
+        this.runItem.tooltip = `${fileName}: ${label.toLowerCase()}${problemCount > 0 ? ` - ${problems}` : ''}\nClick to open the Problems panel`;
+        this.runItem.backgroundColor = success ? undefined : new vscode.ThemeColor('statusBarItem.errorBackground');
+        this.runItem.show();
+    }
+
     hide(): void {
         this.creditsItem.hide();
         this.modeItem.hide();
+        this.runItem.hide();
+        this.stopItem.hide();
     }
 }
 
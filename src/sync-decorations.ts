@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { RfxDiagnostics } from './diagnostics';
+import { REMOTE_SCHEME } from './file-sync';
+import { FolderSync } from './folder-sync';
+
+type FileState = 'conflict' | 'modified' | 'unsynced' | 'verifyFailed' | 'generated' | 'verifyPassed';
+
+/** In order of precedence: the first state a file is in picks its badge and color */
+const STATES: Record<FileState, { badge: string, color: string, tooltip: string }> = {
+    conflict: { badge: '!', color: 'gitDecoration.conflictingResourceForeground', tooltip: 'Changed locally and on Reflexible' },
+    modified: { badge: 'M', color: 'gitDecoration.modifiedResourceForeground', tooltip: 'Modified, not saved to Reflexible' },
+    unsynced: { badge: '↑', color: 'gitDecoration.modifiedResourceForeground', tooltip: 'Waiting to sync to Reflexible' },
+    verifyFailed: { badge: '✗', color: 'list.errorForeground', tooltip: 'Verification failed' },
+    generated: { badge: 'N', color: 'gitDecoration.untrackedResourceForeground', tooltip: 'Generated by the last session' },
+    verifyPassed: { badge: '✓', color: 'testing.iconPassed', tooltip: 'Verification passed' }
+};
+
+/**
+ * Badges and colors for `reflexible:` files and files in the linked folder:
+ * unsaved edits, changes waiting to sync, sync conflicts, the outcome of the
+ * last verify, and files generated by the last completed session.
+ */
+export class SyncDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+    private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+
+    private generated = new Set<string>();
+    /** Documents last seen dirty, to fire only when that flips */
+    private readonly dirty = new Set<string>();
+    private readonly disposables: vscode.Disposable[];
+
+    constructor(
+        private readonly diagnostics: RfxDiagnostics,
+        private readonly folderSync: FolderSync
+    ) {
+        this.disposables = [
+            vscode.window.registerFileDecorationProvider(this),
+            this._onDidChangeFileDecorations,
+            diagnostics.onDidChangeVerifyStatus(uri => this._onDidChangeFileDecorations.fire(uri)),
+            folderSync.onDidChangeState(() => this._onDidChangeFileDecorations.fire(undefined)),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                // An edited file is no longer what the session generated
+                if (e.contentChanges.length > 0 && this.generated.delete(e.document.uri.toString())) {
+                    this._onDidChangeFileDecorations.fire(e.document.uri);
+                }
+                this.updateDirty(e.document);
+            }),
+            vscode.workspace.onDidSaveTextDocument(doc => this.updateDirty(doc)),
+            vscode.workspace.onDidCloseTextDocument(doc => this.updateDirty(doc))
+        ];
+    }
+
+    /** Replaces the set of files marked as generated by the last session. */
+    setGenerated(uris: vscode.Uri[]): void {
+        const previous = [...this.generated].map(uri => vscode.Uri.parse(uri));
+        this.generated = new Set(uris.map(uri => uri.toString()));
+        this._onDidChangeFileDecorations.fire([...previous, ...uris]);
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        const states = this.states(uri);
+        if (states.length === 0) return undefined;
+        const { badge, color } = STATES[states[0]];
+        return new vscode.FileDecoration(badge, this.describe(uri), new vscode.ThemeColor(color));
+    }
+
+    /** Tooltip text for every state a file is in, or undefined if it has none. */
+    describe(uri: vscode.Uri): string | undefined {
+        const states = this.states(uri);
+        return states.length > 0 ? states.map(state => STATES[state].tooltip).join(' · ') : undefined;
+    }
+
+    private states(uri: vscode.Uri): FileState[] {
+        const states: FileState[] = [];
+        const key = uri.toString();
+        const syncState = this.folderSync.fileState(uri);
+        if (syncState === 'conflict') states.push('conflict');
+        // Unsaved edits are the editor's business unless they are headed for Reflexible
+        if (this.dirty.has(key) && (uri.scheme === REMOTE_SCHEME || this.folderSync.isLinked(uri))) states.push('modified');
+        if (syncState === 'pending') states.push('unsynced');
+        const verifyStatus = this.diagnostics.verifyStatus(uri);
+        if (verifyStatus && verifyStatus !== 'passed') states.push('verifyFailed');
+        if (this.generated.has(key)) states.push('generated');
+        if (verifyStatus === 'passed') states.push('verifyPassed');
+        return states;
+    }
+
+    private updateDirty(doc: vscode.TextDocument): void {
+        const key = doc.uri.toString();
+        const dirty = doc.isDirty && !doc.isClosed;
+        if (dirty === this.dirty.has(key)) return;
+        if (dirty) this.dirty.add(key);
+        else this.dirty.delete(key);
+        this._onDidChangeFileDecorations.fire(doc.uri);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
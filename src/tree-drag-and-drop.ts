@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ReflexibleClient } from './client';
+import { ProjectFile } from './api-types';
+import { Config } from './config';
+import { showApiError } from './errors';
+import { ReflexibleFileSystemProvider } from './file-sync';
+import { ProjectTreeProvider, TreeNode } from './project-tree-provider';
+
+const TREE_MIME = 'application/vnd.code.tree.reflexible.projecttree';
+const URI_LIST_MIME = 'text/uri-list';
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+interface LocalUpload {
+    source: vscode.Uri;
+    /** Path within the project */
+    path: string;
+}
+
+/**
+ * Drag and drop for the Projects view. Files dropped from the Explorer (or
+ * the OS) onto a project or folder are uploaded there; project files and
+ * folders dragged within a project are moved; and dragging them out to the
+ * Explorer hands over their `reflexible://` URIs, so the Explorer copies them
+ * down through the file system provider.
+ */
+export class ProjectTreeDragAndDrop implements vscode.TreeDragAndDropController<TreeNode> {
+    readonly dragMimeTypes = [TREE_MIME, URI_LIST_MIME];
+    readonly dropMimeTypes = [TREE_MIME, URI_LIST_MIME];
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly projectTree: ProjectTreeProvider,
+        private readonly remoteFs: ReflexibleFileSystemProvider
+    ) {}
+
+    handleDrag(source: readonly TreeNode[], dataTransfer: vscode.DataTransfer): void {
+        const nodes = source.filter(node => node.projectId && (isFileNode(node) || node.contextValue === 'folder'));
+        if (nodes.length === 0) return;
+        dataTransfer.set(TREE_MIME, new vscode.DataTransferItem(nodes));
+        dataTransfer.set(URI_LIST_MIME, new vscode.DataTransferItem(
+            nodes.map(node => node.resourceUri!.toString()).join('\r\n')
+        ));
+    }
+
+    async handleDrop(target: TreeNode | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+        const destination = target && dropFolder(target);
+        if (!destination) return;
+
+        const dragged = dataTransfer.get(TREE_MIME)?.value as TreeNode[] | undefined;
+        if (dragged) {
+            await this.move(dragged, destination.projectId, destination.folder);
+            return;
+        }
+
+        const uriList = await dataTransfer.get(URI_LIST_MIME)?.asString();
+        if (!uriList) return;
+        const uris = uriList
+            .split(/\r?\n/)
+            .filter(line => line.trim() && !line.startsWith('#'))
+            .map(line => vscode.Uri.parse(line.trim()));
+        await this.upload(uris, destination.projectId, destination.folder, token);
+    }
+
+    private async move(nodes: TreeNode[], projectId: string, folder: string): Promise<void> {
+        if (nodes.some(node => node.projectId !== projectId)) {
+            vscode.window.showWarningMessage('Files can only be moved within a project. Drag them to the Explorer and back to copy them to another project');
+            return;
+        }
+
+        const moves = new Map<string, { file: ProjectFile, newPath: string }>();
+        for (const node of nodes) {
+            if (isFileNode(node)) {
+                const file = node.project as ProjectFile;
+                moves.set(file.id, { file, newPath: joinPath(folder, path.posix.basename(file.path)) });
+                continue;
+            }
+            // A folder keeps its name and moves with everything in it
+            const from = node.folderPath!;
+            if (folder === from || folder.startsWith(from + '/')) {
+                vscode.window.showWarningMessage(`Cannot move ${from} into itself`);
+                return;
+            }
+            for (const file of filesUnder(node)) {
+                moves.set(file.id, { file, newPath: joinPath(folder, path.posix.basename(from), file.path.slice(from.length + 1)) });
+            }
+        }
+
+        const pending = [...moves.values()].filter(m => m.newPath !== m.file.path);
+        if (pending.length === 0) return;
+
+        const client = ReflexibleClient.for(this.context);
+        let failed = 0;
+        for (const { file, newPath } of pending) {
+            try {
+                await client.renameFile(projectId, file.id, newPath);
+                this.outputChannel.appendLine(`Moved ${file.path} to ${newPath}`);
+            } catch (e: any) {
+                failed++;
+                this.outputChannel.appendLine(`Failed to move ${file.path}: ${e.message}`);
+            }
+        }
+        this.remoteFs.invalidate(projectId);
+        this.projectTree.invalidate(projectId);
+        if (failed > 0) {
+            vscode.window.showErrorMessage(`Failed to move ${failed} file(s) - see Output`);
+        }
+    }
+
+    private async upload(uris: vscode.Uri[], projectId: string, folder: string, token: vscode.CancellationToken): Promise<void> {
+        const uploads: LocalUpload[] = [];
+        try {
+            for (const uri of uris) {
+                await collectFiles(uri, joinPath(folder, path.posix.basename(uri.path)), uploads);
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Cannot read the dropped files: ${e.message}`);
+            return;
+        }
+        if (uploads.length === 0) return;
+
+        const client = ReflexibleClient.for(this.context);
+        try {
+            const existing = new Set((await client.listFiles(projectId)).map(f => f.path));
+            const replaced = uploads.filter(u => existing.has(u.path));
+            if (replaced.length > 0) {
+                const confirm = await vscode.window.showWarningMessage(
+                    replaced.length === 1
+                        ? `"${replaced[0].path}" already exists in the project. Replace it?`
+                        : `${replaced.length} of the dropped files already exist in the project. Replace them?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (confirm !== 'Replace') return;
+            }
+        } catch (e: any) {
+            showApiError(e, 'Failed to upload files');
+            return;
+        }
+
+        const maxSize = Config.maxUploadFileSize * 1024;
+        let uploaded = 0;
+        const tooLarge: string[] = [];
+        const failed: string[] = [];
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Uploading ${uploads.length} file(s)`,
+            cancellable: true
+        }, async (progress, progressToken) => {
+            for (const { source, path: target } of uploads) {
+                if (token.isCancellationRequested || progressToken.isCancellationRequested) break;
+                progress.report({ message: target, increment: 100 / uploads.length });
+                try {
+                    const data = await vscode.workspace.fs.readFile(source);
+                    if (data.length > maxSize) {
+                        tooLarge.push(target);
+                        continue;
+                    }
+                    await client.saveFile(projectId, target, data);
+                    this.outputChannel.appendLine(`Uploaded ${source.fsPath || source.toString()} to ${target}`);
+                    uploaded++;
+                } catch (e: any) {
+                    failed.push(target);
+                    this.outputChannel.appendLine(`Failed to upload ${target}: ${e.message}`);
+                }
+            }
+        });
+
+        this.remoteFs.invalidate(projectId);
+        this.projectTree.invalidate(projectId);
+        if (uploaded > 0) {
+            vscode.window.showInformationMessage(`✅ Uploaded ${uploaded} file(s)`);
+        }
+        if (tooLarge.length > 0) {
+            vscode.window.showWarningMessage(`Skipped ${tooLarge.length} file(s) over the ${Config.maxUploadFileSize} KB upload limit: ${tooLarge.join(', ')}`);
+        }
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(`Failed to upload ${failed.length} file(s) - see Output`);
+        }
+    }
+}
+
+function isFileNode(node: TreeNode): boolean {
+    return node.contextValue === 'file' || node.contextValue === 'binary';
+}
+
+/** The project and folder a drop onto `target` goes into; a file drops into its own folder. */
+function dropFolder(target: TreeNode): { projectId: string, folder: string } | undefined {
+    if (!target.projectId) return undefined;
+    if (isFileNode(target)) {
+        const dir = path.posix.dirname((target.project as ProjectFile).path);
+        return { projectId: target.projectId, folder: dir === '.' ? '' : dir };
+    }
+    if (target.folderPath === undefined) return undefined;
+    return { projectId: target.projectId, folder: target.folderPath };
+}
+
+function filesUnder(node: TreeNode): ProjectFile[] {
+    return (node.children ?? []).flatMap(child => isFileNode(child) ? [child.project as ProjectFile] : filesUnder(child));
+}
+
+function joinPath(...parts: string[]): string {
+    return parts.filter(part => part.length > 0).join('/');
+}
+
+/** Expands dropped folders into the files inside them. */
+async function collectFiles(uri: vscode.Uri, target: string, out: LocalUpload[]): Promise<void> {
+    const stat = await vscode.workspace.fs.stat(uri);
+    if (stat.type & vscode.FileType.Directory) {
+        for (const [name] of await vscode.workspace.fs.readDirectory(uri)) {
+            if (SKIPPED_DIRS.has(name)) continue;
+            await collectFiles(vscode.Uri.joinPath(uri, name), `${target}/${name}`, out);
+        }
+    } else {
+        out.push({ source: uri, path: target });
+    }
+}
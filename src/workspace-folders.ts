@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { Config } from './config';
+import { REMOTE_SCHEME } from './file-sync';
+import { ProjectBindings } from './project-binding';
+
+const ASSOCIATIONS_KEY = 'folderProjects';
+
+/** Workspace folders on disk; mounted `reflexible:` projects are not places to put output. */
+export function localFolders(): readonly vscode.WorkspaceFolder[] {
+    return (vscode.workspace.workspaceFolders ?? []).filter(folder => folder.uri.scheme !== REMOTE_SCHEME);
+}
+
+/**
+ * The workspace folder that owns `uri`. Files outside every folder fall back
+ * to the only folder, or ask which one when there are several.
+ */
+export async function folderForUri(uri: vscode.Uri | undefined, placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const owner = uri && vscode.workspace.getWorkspaceFolder(uri);
+    if (owner && owner.uri.scheme !== REMOTE_SCHEME) return owner;
+    return pickFolder(placeHolder);
+}
+
+/**
+ * The workspace folder a project's files are written to: the folder whose
+ * `.reflexible.json` binds the project, else the folder chosen for it
+ * before. Without either the only folder is used, or the user is asked when
+ * there are several.
+ */
+export async function folderForProject(
+    context: vscode.ExtensionContext,
+    projectId: string,
+    placeHolder: string
+): Promise<vscode.WorkspaceFolder | undefined> {
+    const bound = await ProjectBindings.get().findProject(projectId);
+    if (bound) return bound.folder;
+
+    const associated = context.workspaceState.get<Record<string, string>>(ASSOCIATIONS_KEY, {})[projectId];
+    const folders = localFolders();
+    const match = associated && folders.find(folder => folder.uri.toString() === associated);
+    if (match) return match;
+
+    const folder = await pickFolder(placeHolder);
+    if (folder && folders.length > 1) await associateFolder(context, projectId, folder);
+    return folder;
+}
+
+/** Remembers `folder` as the place for `projectId`'s files. */
+export async function associateFolder(context: vscode.ExtensionContext, projectId: string, folder: vscode.WorkspaceFolder): Promise<void> {
+    const associations = context.workspaceState.get<Record<string, string>>(ASSOCIATIONS_KEY, {});
+    if (associations[projectId] === folder.uri.toString()) return;
+    await context.workspaceState.update(ASSOCIATIONS_KEY, { ...associations, [projectId]: folder.uri.toString() });
+}
+
+/**
+ * Where generated and downloaded files go in `folder`: the binding's
+ * `outputDirectory`, else the `reflexible.outputDirectory` setting.
+ */
+export async function outputDirectory(folder: vscode.WorkspaceFolder): Promise<vscode.Uri> {
+    const bound = (await ProjectBindings.get().forFolder(folder))?.outputDirectory?.replace(/^[\\/]+|[\\/]+$/g, '');
+    return vscode.Uri.joinPath(folder.uri, bound || Config.outputDirectory(folder));
+}
+
+async function pickFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = localFolders();
+    if (folders.length <= 1) return folders[0];
+    const picked = await vscode.window.showQuickPick(
+        folders.map(folder => ({ label: folder.name, description: folder.uri.fsPath, folder })),
+        { placeHolder }
+    );
+    return picked?.folder;
+}